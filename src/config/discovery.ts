@@ -1,57 +1,101 @@
 /**
  * OpenCarly Config Discovery
  *
- * Finds the .opencarly/ configuration directory by:
- * 1. Walking up from cwd looking for a local .opencarly/ with a manifest.json
- * 2. Falling back to ~/.config/opencarly/ (global config)
+ * Finds every .opencarly/ configuration directory that applies to a cwd:
+ * 1. The global config at ~/.config/opencarly/
+ * 2. The repository-root .opencarly/ (directory containing .git)
+ * 3. Any nested package-level .opencarly/ between the repo root and cwd
+ *
+ * Layers are returned lowest precedence first; loadConfig merges them
+ * so that the innermost directory wins.
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { findConfigFiles } from "./parser";
 
 const CONFIG_DIR_NAME = ".opencarly";
-const MANIFEST_FILE = "manifest.json";
+const MANIFEST_BASE_NAME = "manifest";
 const MAX_WALK_DEPTH = 10;
 
-export interface DiscoveryResult {
+/** "extends" layers are inherited rule packs added by loadConfig, never by discovery */
+export type ConfigLayerScope = "global" | "root" | "package" | "extends";
+
+export interface ConfigLayer {
   /** Absolute path to the .opencarly/ directory */
   configPath: string;
 
-  /** Whether this is a local or global config */
-  scope: "local" | "global";
+  /** Where this layer sits in the precedence chain */
+  scope: ConfigLayerScope;
+}
+
+export interface DiscoveryResult {
+  /**
+   * Absolute path to the highest-precedence .opencarly/ directory.
+   * Session and stats files are stored here.
+   */
+  configPath: string;
+
+  /** All discovered layers, ordered from lowest to highest precedence */
+  layers: ConfigLayer[];
 }
 
 /**
- * Discover the .opencarly/ configuration directory.
+ * Get the global config directory (~/.config/opencarly/).
+ */
+export function getGlobalConfigPath(): string {
+  return path.join(os.homedir(), ".config", "opencarly");
+}
+
+/**
+ * Discover all .opencarly/ configuration layers.
  *
- * Walks up from `startDir` looking for a `.opencarly/manifest.json`.
- * Falls back to `~/.config/opencarly/manifest.json`.
+ * Walks up from `startDir` collecting every `.opencarly/` with a manifest
+ * (`manifest.json`, `.jsonc`, `.yaml` or `.yml`)
+ * until the repository root (a directory containing `.git`) is passed.
+ * The outermost local config is the "root" layer, anything nested below
+ * it is a "package" layer. `~/.config/opencarly/` is prepended as the
+ * "global" layer when it has a manifest.
  * Returns null if no config found anywhere.
  */
 export function discoverConfig(startDir: string): DiscoveryResult | null {
-  // 1. Walk up from startDir looking for local .opencarly/
+  // 1. Walk up from startDir collecting local .opencarly/ directories
+  const localPaths: string[] = [];
   let current = path.resolve(startDir);
   for (let i = 0; i < MAX_WALK_DEPTH; i++) {
     const candidate = path.join(current, CONFIG_DIR_NAME);
-    const manifestPath = path.join(candidate, MANIFEST_FILE);
-
-    if (fs.existsSync(manifestPath)) {
-      return { configPath: candidate, scope: "local" };
+    if (findConfigFiles(candidate, MANIFEST_BASE_NAME).length > 0) {
+      localPaths.push(candidate);
     }
 
+    // Stop at the repository root so configs from unrelated parents don't leak in
+    if (fs.existsSync(path.join(current, ".git"))) break;
+
     const parent = path.dirname(current);
     if (parent === current) break; // reached filesystem root
     current = parent;
   }
 
-  // 2. Check global config
-  const globalConfig = path.join(os.homedir(), ".config", "opencarly");
-  const globalManifest = path.join(globalConfig, MANIFEST_FILE);
+  const layers: ConfigLayer[] = [];
+
+  // 2. Global config has the lowest precedence
+  const globalConfig = getGlobalConfigPath();
+  const hasGlobalManifest = findConfigFiles(globalConfig, MANIFEST_BASE_NAME).length > 0;
+  if (hasGlobalManifest && !localPaths.includes(globalConfig)) {
+    layers.push({ configPath: globalConfig, scope: "global" });
+  }
 
-  if (fs.existsSync(globalManifest)) {
-    return { configPath: globalConfig, scope: "global" };
+  // 3. Local configs, outermost (repo root) first
+  localPaths.reverse();
+  for (let i = 0; i < localPaths.length; i++) {
+    layers.push({ configPath: localPaths[i], scope: i === 0 ? "root" : "package" });
   }
 
-  return null;
+  if (layers.length === 0) return null;
+
+  return {
+    configPath: layers[layers.length - 1].configPath,
+    layers,
+  };
 }
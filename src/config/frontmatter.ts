@@ -0,0 +1,68 @@
+/**
+ * OpenCarly Front-Matter Parser
+ *
+ * Parses the YAML metadata block at the top of domain .md files:
+ *
+ *   ---
+ *   recall: [auth, login, "API key"]
+ *   exclude:
+ *     - changelog
+ *   alwaysOn: false
+ *   ---
+ *
+ * The block between the `---` fences is parsed as a YAML document, so
+ * quoting, comments and nested values behave like in manifest.yaml.
+ */
+
+import { parse as parseYamlDocument, YAMLParseError } from "yaml";
+
+export interface FrontMatterResult {
+  /** Parsed key/value pairs, or null when the file has no valid front-matter */
+  data: Record<string, unknown> | null;
+
+  /** File content after the front-matter block */
+  body: string;
+
+  /** Why an existing front-matter block was rejected, or null */
+  error: string | null;
+}
+
+const FENCE = /^---\s*$/;
+
+/**
+ * Parse a front-matter block from the start of a file.
+ * Returns `data: null` and the untouched content when there is no block
+ * or the closing fence is missing. A block that is not a valid YAML
+ * mapping yields `data: null` with `error` set; the body is still split off.
+ */
+export function parseFrontMatter(content: string): FrontMatterResult {
+  const lines = content.split("\n");
+  if (lines.length === 0 || !FENCE.test(lines[0])) {
+    return { data: null, body: content, error: null };
+  }
+
+  const closing = lines.findIndex((line, i) => i > 0 && FENCE.test(line));
+  if (closing === -1) {
+    return { data: null, body: content, error: null };
+  }
+
+  const body = lines.slice(closing + 1).join("\n");
+  let data: unknown;
+  try {
+    data = parseYamlDocument(lines.slice(1, closing).join("\n"));
+  } catch (err) {
+    if (!(err instanceof YAMLParseError)) throw err;
+    // Line numbers count from the opening fence, like in an editor
+    const line = (err.linePos?.[0].line ?? 0) + 1;
+    const detail = err.message.split(/ at line \d+/)[0];
+    return { data: null, body, error: `invalid YAML at line ${line}: ${detail}` };
+  }
+
+  if (data === null || data === undefined) {
+    return { data: {}, body, error: null };
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    return { data: null, body, error: "front-matter must be a mapping of keys to values" };
+  }
+  return { data: data as Record<string, unknown>, body, error: null };
+}
@@ -2,13 +2,56 @@
  * Config module exports
  */
 
-export { discoverConfig, type DiscoveryResult } from "./discovery";
-export { loadConfig, reloadConfig, parseDomainFile, type CarlyConfig } from "./manifest";
+export {
+  discoverConfig,
+  getGlobalConfigPath,
+  type DiscoveryResult,
+  type ConfigLayer,
+  type ConfigLayerScope,
+} from "./discovery";
+export {
+  loadConfig,
+  reloadConfig,
+  parseDomainFile,
+  readDomainFile,
+  getDomainFilePath,
+  getDomainScopeRoot,
+  resolveExtendsTarget,
+  type CarlyConfig,
+  type DomainFile,
+  type LoadConfigOptions,
+} from "./manifest";
+export {
+  migrateManifest,
+  writeMigratedManifest,
+  CURRENT_MANIFEST_VERSION,
+  type MigrationResult,
+} from "./migrations";
+export { parseFrontMatter, type FrontMatterResult } from "./frontmatter";
+export {
+  readConfigFile,
+  findConfigFiles,
+  parseConfigText,
+  ConfigSyntaxError,
+  CONFIG_EXTENSIONS,
+  type ConfigFile,
+} from "./parser";
+export { watchConfig, type ConfigWatcher } from "./watcher";
 export {
   ManifestSchema,
+  ProfileSchema,
+  FuzzyConfigSchema,
+  SemanticConfigSchema,
+  ActivityConfigSchema,
+  GitConfigSchema,
   DomainConfigSchema,
+  DetectConditionSchema,
+  GitTriggerSchema,
+  AudienceFilterSchema,
+  GIT_OPERATIONS,
   CommandsFileSchema,
   StarCommandSchema,
+  StarCommandParamSchema,
   ContextFileSchema,
   ContextBracketSchema,
   TrimmingConfigSchema,
@@ -20,9 +63,19 @@ export {
   SessionConfigSchema,
   SessionOverrideSchema,
   type Manifest,
+  type Profile,
+  type FuzzyConfig,
+  type SemanticConfig,
+  type ActivityConfig,
+  type GitConfig,
   type DomainConfig,
+  type DetectCondition,
+  type GitTrigger,
+  type GitOperation,
+  type AudienceFilter,
   type CommandsFile,
   type StarCommand,
+  type StarCommandParam,
   type ContextFile,
   type ContextBracket,
   type TrimmingConfig,
@@ -1,22 +1,36 @@
 /**
  * OpenCarly Config Loader
  *
- * Parses and validates manifest.json, commands.json, and context.json
- * from the discovered .opencarly/ directory.
+ * Parses and validates manifest, commands, and context files (JSON, JSONC
+ * or YAML, see parser.ts)
+ * from every discovered .opencarly/ layer and merges them into one config.
  * Collects warnings for non-fatal issues instead of silently ignoring them.
  */
 
 import * as fs from "fs";
 import * as path from "path";
+import * as os from "os";
 import { ZodError } from "zod";
+import { parseFrontMatter } from "./frontmatter";
+import { ConfigSyntaxError, findConfigFiles, readConfigFile, type ConfigFile } from "./parser";
+import { suggestKeywordPattern, validateKeyword } from "../engine/keywords";
+import { findRequireCycles } from "../engine/dependencies";
+import { migrateManifest, writeMigratedManifest, CURRENT_MANIFEST_VERSION, type MigrationResult } from "./migrations";
 import {
   ManifestSchema,
+  DomainConfigSchema,
   CommandsFileSchema,
   ContextFileSchema,
   type Manifest,
+  type DomainConfig,
   type CommandsFile,
   type ContextFile,
 } from "./schema";
+import type { ConfigLayer } from "./discovery";
+
+const CONFIG_DIR_NAME = ".opencarly";
+const DOMAINS_DIR = "domains";
+const MANIFEST_BASE_NAME = "manifest";
 
 export interface CarlyConfig {
   /** Parsed and validated manifest */
@@ -28,25 +42,29 @@ export interface CarlyConfig {
   /** Parsed and validated context brackets (defaults if context.json missing) */
   context: ContextFile;
 
-  /** Absolute path to the .opencarly/ directory */
+  /** Absolute path to the highest-precedence .opencarly/ directory */
   configPath: string;
 
+  /** Layers that were merged, ordered from lowest to highest precedence */
+  layers: ConfigLayer[];
+
+  /** Layer that defined each domain's rule file: { domainName: layer } */
+  domainSources: Record<string, ConfigLayer>;
+
   /** Non-fatal warnings encountered during config loading */
   warnings: string[];
+
+  /**
+   * Layers with a manifest, commands or context file that was rejected
+   * (syntax, validation or unsupported version). The rest of the config
+   * still loads; hot reload keeps the previous config while this is non-empty.
+   */
+  failedLayers: ConfigLayer[];
 }
 
-/**
- * Read and parse a JSON file. Returns null if file doesn't exist.
- * Throws on invalid JSON.
- */
-async function readJsonFile(filePath: string): Promise<unknown> {
-  try {
-    const raw = await fs.promises.readFile(filePath, "utf-8");
-    return JSON.parse(raw);
-  } catch (err: any) {
-    if (err.code === 'ENOENT') return null;
-    throw err;
-  }
+export interface LoadConfigOptions {
+  /** Write manifests migrated from an older version back to disk (with a .bak copy) */
+  writeMigrations?: boolean;
 }
 
 /**
@@ -62,125 +80,579 @@ function formatZodErrors(error: ZodError): string {
 }
 
 /**
- * Load all configuration from a .opencarly/ directory.
- * Validates against Zod schemas. Collects warnings for non-fatal issues.
- * Throws only when manifest.json is missing entirely.
+ * Warn about config file variants shadowed by a higher-precedence extension.
  */
-export async function loadConfig(configPath: string): Promise<CarlyConfig> {
-  const warnings: string[] = [];
+function warnIgnoredVariants(file: ConfigFile, warnings: string[]): void {
+  for (const ignoredPath of file.ignored) {
+    warnings.push(
+      `${ignoredPath}: ignored because ${path.basename(file.filePath)} takes precedence`
+    );
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-  // manifest.json (required)
-  const manifestPath = path.join(configPath, "manifest.json");
-  const manifestRaw = await readJsonFile(manifestPath);
-  if (manifestRaw === null) {
-    throw new Error(`OpenCarly: manifest.json not found at ${manifestPath}`);
+/**
+ * Merge two raw config objects.
+ * Objects merge key by key; arrays and scalars from `override` replace `base`.
+ */
+function mergeConfigObjects(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
   }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = mergeConfigObjects(base[key], value);
+  }
+  return result;
+}
+
+/**
+ * Prefix for warnings so users can tell which layer a problem came from.
+ */
+function layerPrefix(layer: ConfigLayer, layers: ConfigLayer[]): string {
+  return layers.length > 1 ? `[${layer.scope}: ${layer.configPath}] ` : "";
+}
+
+/** Domain fields that may be declared in a domain file's front-matter */
+const FrontMatterDomainSchema = DomainConfigSchema.omit({ file: true }).partial();
 
-  let manifest: Manifest;
+/**
+ * Build raw domain entries from front-matter in a layer's domains/ folder.
+ *
+ * Files already referenced by a manifest domain in the same layer contribute
+ * their front-matter to that domain. Unreferenced files that carry
+ * front-matter are registered under their `name` field or file basename.
+ * The manifest is merged on top afterwards, so its entries win.
+ */
+async function collectFrontMatterDomains(
+  layer: ConfigLayer,
+  layerManifest: unknown,
+  warnings: string[],
+  prefix: string
+): Promise<Record<string, Record<string, unknown>>> {
+  const domainsDir = path.join(layer.configPath, DOMAINS_DIR);
+  let entries: string[];
   try {
-    manifest = ManifestSchema.parse(manifestRaw);
-  } catch (err) {
-    if (err instanceof ZodError) {
+    entries = await fs.promises.readdir(domainsDir);
+  } catch {
+    return {};
+  }
+
+  // Map resolved file path -> manifest domain names referencing it
+  const referencedBy = new Map<string, string[]>();
+  if (isPlainObject(layerManifest) && isPlainObject(layerManifest.domains)) {
+    for (const [name, domain] of Object.entries(layerManifest.domains)) {
+      if (isPlainObject(domain) && typeof domain.file === "string") {
+        const resolved = path.resolve(layer.configPath, domain.file);
+        referencedBy.set(resolved, [...(referencedBy.get(resolved) ?? []), name]);
+      }
+    }
+  }
+
+  const domains: Record<string, Record<string, unknown>> = {};
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith(".md")) continue;
+
+    const relativeFile = `${DOMAINS_DIR}/${entry}`;
+    const { frontMatter, frontMatterError } = await readDomainFile(path.join(domainsDir, entry));
+    if (frontMatterError) {
+      warnings.push(`${prefix}${relativeFile} has invalid front-matter (ignored): ${frontMatterError}`);
+      continue;
+    }
+    if (!frontMatter) continue;
+
+    const { name, ...fields } = frontMatter;
+    const parsed = FrontMatterDomainSchema.safeParse(fields);
+    if (!parsed.success) {
+      warnings.push(
+        `${prefix}${relativeFile} has invalid front-matter (ignored):\n${formatZodErrors(parsed.error)}`
+      );
+      continue;
+    }
+
+    const owners = referencedBy.get(path.resolve(domainsDir, entry));
+    const names = owners ?? [typeof name === "string" && name.trim() !== "" ? name.trim() : entry.slice(0, -3)];
+    for (const domainName of names) {
+      domains[domainName] = { ...fields, file: relativeFile };
+    }
+  }
+
+  return domains;
+}
+
+/**
+ * Resolve the absolute path of a domain's rule file.
+ * Domain files are relative to the layer that declared them.
+ */
+export function getDomainFilePath(
+  config: Pick<CarlyConfig, "configPath" | "domainSources">,
+  domainName: string,
+  domain: DomainConfig
+): string {
+  const baseDir = config.domainSources[domainName]?.configPath ?? config.configPath;
+  return path.resolve(baseDir, domain.file);
+}
+
+/**
+ * Resolve the directory a domain's `scope` globs are relative to.
+ * Domains declared in a package layer are scoped within that package;
+ * everything else (root, global, inherited packs) is relative to the
+ * repository's root config.
+ */
+export function getDomainScopeRoot(
+  config: Pick<CarlyConfig, "configPath" | "layers" | "domainSources">,
+  domainName: string
+): string {
+  const source = config.domainSources[domainName];
+  if (source?.scope === "package") return path.dirname(source.configPath);
+  const root = config.layers.find((layer) => layer.scope === "root");
+  return path.dirname(root?.configPath ?? config.configPath);
+}
+
+/**
+ * Resolve an `extends` entry to an absolute .opencarly/ directory.
+ *
+ * - Paths (starting with ".", "/" or "~") resolve relative to the extending
+ *   layer's .opencarly/ directory. Either the directory itself or its
+ *   .opencarly/ subfolder must contain a manifest (any supported format).
+ * - Anything else is treated as an npm package name and looked up as
+ *   node_modules/<name>/.opencarly/ walking up from the extending layer.
+ *
+ * Returns null when nothing with a manifest is found.
+ */
+export function resolveExtendsTarget(spec: string, fromDir: string): string | null {
+  const hasManifest = (dir: string) => findConfigFiles(dir, MANIFEST_BASE_NAME).length > 0;
+
+  if (spec.startsWith(".") || spec.startsWith("~") || path.isAbsolute(spec)) {
+    const expanded = spec.startsWith("~") ? path.join(os.homedir(), spec.slice(1)) : spec;
+    const dir = path.resolve(fromDir, expanded);
+    if (hasManifest(dir)) return dir;
+    const nested = path.join(dir, CONFIG_DIR_NAME);
+    return hasManifest(nested) ? nested : null;
+  }
+
+  let current = path.resolve(fromDir);
+  while (true) {
+    const candidate = path.join(current, "node_modules", spec, CONFIG_DIR_NAME);
+    if (hasManifest(candidate)) return candidate;
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Normalize the raw `extends` value of a manifest into a list of specs.
+ */
+function readExtends(manifestRaw: unknown): string[] {
+  if (!isPlainObject(manifestRaw)) return [];
+  const value = manifestRaw.extends;
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  return [];
+}
+
+interface ResolvedLayer {
+  layer: ConfigLayer;
+  manifestRaw: unknown;
+
+  /** The manifest could not be read or migrated and was treated as empty */
+  failed: boolean;
+}
+
+/**
+ * Read every layer's manifest and expand `extends` chains.
+ *
+ * Inherited packs are placed directly before the layer that extends them,
+ * so the extending layer always overrides what it inherits. A pack reached
+ * twice (diamond) is only loaded once. Cycles and unresolvable packs are
+ * reported as warnings; a manifest with syntax errors or an unsupported
+ * version is reported and treated as empty. A missing manifest in a
+ * discovered layer throws.
+ */
+async function resolveLayers(
+  rootLayers: ConfigLayer[],
+  warnings: string[],
+  options: LoadConfigOptions
+): Promise<ResolvedLayer[]> {
+  const resolved: ResolvedLayer[] = [];
+  const loaded = new Set<string>();
+
+  const visit = async (layer: ConfigLayer, chain: string[]): Promise<void> => {
+    if (loaded.has(layer.configPath)) return;
+
+    let manifestFile: ConfigFile | null;
+    try {
+      manifestFile = await readConfigFile(layer.configPath, MANIFEST_BASE_NAME);
+    } catch (err) {
+      // A broken manifest must not take the other layers down with it; the
+      // layer stays in the list so the watcher picks up the fix
+      if (err instanceof ConfigSyntaxError) {
+        warnings.push(`${err.message} (${err.filePath}) - manifest of this layer skipped`);
+        loaded.add(layer.configPath);
+        resolved.push({ layer, manifestRaw: {}, failed: true });
+        return;
+      }
+      throw err;
+    }
+    if (manifestFile === null) {
       throw new Error(
-        `OpenCarly: manifest.json validation failed:\n${formatZodErrors(err)}`
+        `OpenCarly: manifest not found in ${layer.configPath} (expected manifest.json, .jsonc, .yaml or .yml)`
       );
     }
-    throw err;
+    const manifestPath = manifestFile.filePath;
+    warnIgnoredVariants(manifestFile, warnings);
+
+    // Upgrade older manifest versions before merging; unknown versions fail the layer like bad syntax
+    let migration: MigrationResult;
+    try {
+      migration = await migrateManifest(manifestFile.data, layer.configPath);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      warnings.push(`${message} (${manifestPath}) - manifest of this layer skipped`);
+      loaded.add(layer.configPath);
+      resolved.push({ layer, manifestRaw: {}, failed: true });
+      return;
+    }
+    const manifestRaw = migration.manifestRaw;
+    if (migration.fromVersion < CURRENT_MANIFEST_VERSION) {
+      const details = migration.changes.map((change) => `\n  ${change}`).join("");
+      // Never rewrite inherited packs - they usually live in node_modules
+      if (options.writeMigrations && layer.scope !== "extends") {
+        try {
+          const backupPath = await writeMigratedManifest(manifestPath, migration);
+          warnings.push(
+            `${manifestPath}: migrated from v${migration.fromVersion} to v${CURRENT_MANIFEST_VERSION} (backup at ${backupPath})${details}`
+          );
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          warnings.push(`${manifestPath}: migrated in memory, but writing it back failed: ${message}${details}`);
+        }
+      } else {
+        warnings.push(
+          `${manifestPath}: version ${migration.fromVersion} upgraded to v${CURRENT_MANIFEST_VERSION} in memory (set OPENCARLY_WRITE_MIGRATIONS=1 to update the file)${details}`
+        );
+      }
+    }
+
+    const nextChain = [...chain, layer.configPath];
+    for (const spec of readExtends(manifestRaw)) {
+      const target = resolveExtendsTarget(spec, layer.configPath);
+      if (!target) {
+        warnings.push(`${manifestPath}: extends "${spec}" could not be resolved (skipped)`);
+        continue;
+      }
+      if (nextChain.includes(target)) {
+        warnings.push(
+          `${manifestPath}: extends cycle detected (${[...nextChain, target].join(" -> ")}), skipping "${spec}"`
+        );
+        continue;
+      }
+      await visit({ configPath: target, scope: "extends" }, nextChain);
+    }
+
+    loaded.add(layer.configPath);
+    resolved.push({ layer, manifestRaw, failed: false });
+  };
+
+  for (const layer of rootLayers) {
+    await visit(layer, []);
+  }
+
+  return resolved;
+}
+
+/**
+ * Load and merge configuration from one or more .opencarly/ directories.
+ *
+ * Accepts a single config path or the layer list from discoverConfig.
+ * Later layers take precedence: domains, commands and context settings
+ * they define override those of earlier layers. Packs named in a manifest's
+ * `extends` are merged in just below the layer that extends them.
+ * Manifests from older schema versions are migrated first (see migrations.ts).
+ * Validates against Zod schemas after each layer is merged in: a layer that
+ * makes the manifest or context invalid is reported and left out, and the
+ * remaining layers still load. Rejected layers are listed in `failedLayers`.
+ * Collects warnings for non-fatal issues. Throws only when a discovered
+ * layer has no manifest.
+ */
+export async function loadConfig(
+  source: string | ConfigLayer[],
+  options: LoadConfigOptions = {}
+): Promise<CarlyConfig> {
+  const warnings: string[] = [];
+  const rootLayers: ConfigLayer[] =
+    typeof source === "string" ? [{ configPath: source, scope: "root" }] : source;
+
+  if (rootLayers.length === 0) {
+    throw new Error("OpenCarly: no config directories to load");
+  }
+  const primary = rootLayers[rootLayers.length - 1];
+
+  // manifest (required in every discovered layer), with inherited packs expanded
+  const resolvedLayers = await resolveLayers(rootLayers, warnings, options);
+  const layers = resolvedLayers.map((resolved) => resolved.layer);
+  const failedLayers = new Set(resolvedLayers.filter((resolved) => resolved.failed).map((resolved) => resolved.layer));
+
+  let manifestRaw: unknown = {};
+  let manifest: Manifest = ManifestSchema.parse({});
+  const domainSources: Record<string, ConfigLayer> = {};
+  const acceptedLayers: ResolvedLayer[] = [];
+  for (const resolved of resolvedLayers) {
+    const { layer, manifestRaw: layerRaw } = resolved;
+    const prefix = layerPrefix(layer, layers);
+
+    // Domain files with front-matter underlay the manifest entries of their layer
+    const frontMatterDomains = await collectFrontMatterDomains(layer, layerRaw, warnings, prefix);
+    const candidateRaw = mergeConfigObjects(
+      mergeConfigObjects(manifestRaw, { domains: frontMatterDomains }),
+      layerRaw
+    );
+
+    // Validate after every layer so a broken layer is reported on its own
+    const parsed = ManifestSchema.safeParse(candidateRaw);
+    if (!parsed.success) {
+      warnings.push(
+        `${prefix}manifest validation failed (manifest of this layer skipped):\n${formatZodErrors(parsed.error)}`
+      );
+      failedLayers.add(layer);
+      continue;
+    }
+    manifestRaw = candidateRaw;
+    manifest = parsed.data;
+    acceptedLayers.push(resolved);
+
+    // Remember which layer owns each domain's rule file
+    for (const name of Object.keys(frontMatterDomains)) {
+      domainSources[name] = layer;
+    }
+    if (isPlainObject(layerRaw) && isPlainObject(layerRaw.domains)) {
+      for (const [name, domain] of Object.entries(layerRaw.domains)) {
+        if (isPlainObject(domain) && typeof domain.file === "string") {
+          domainSources[name] = layer;
+        }
+      }
+    }
+  }
+
+  for (const name of Object.keys(manifest.domains)) {
+    if (!domainSources[name]) domainSources[name] = primary;
   }
 
   // Validate domain file references exist
   for (const [name, domain] of Object.entries(manifest.domains)) {
-    const domainFilePath = path.join(configPath, domain.file);
+    const domainFilePath = getDomainFilePath({ configPath: primary.configPath, domainSources }, name, domain);
     try {
       await fs.promises.access(domainFilePath);
     } catch {
       warnings.push(
-        `Domain "${name}" references file "${domain.file}" which does not exist`
+        `${layerPrefix(domainSources[name], layers)}Domain "${name}" references file "${domain.file}" which does not exist`
       );
     }
   }
 
-  // commands.json (optional - defaults to empty)
-  const commandsPath = path.join(configPath, "commands.json");
-  let commands: CommandsFile = {};
-  const commandsRaw = await readJsonFile(commandsPath);
+  // Validate requires / conflicts references
+  for (const [name, domain] of Object.entries(manifest.domains)) {
+    for (const [field, targets] of [["requires", domain.requires], ["conflicts", domain.conflicts]] as const) {
+      for (const target of targets) {
+        if (!manifest.domains[target]) {
+          warnings.push(
+            `${layerPrefix(domainSources[name], layers)}Domain "${name}" ${field} unknown domain "${target}" (ignored)`
+          );
+        } else if (field === "conflicts" && domain.requires.includes(target)) {
+          warnings.push(
+            `${layerPrefix(domainSources[name], layers)}Domain "${name}" both requires and conflicts with "${target}"`
+          );
+        }
+      }
+    }
+  }
+  for (const cycle of findRequireCycles(manifest.domains)) {
+    warnings.push(`${layerPrefix(domainSources[cycle[0]], layers)}requires cycle detected (${cycle.join(" -> ")}) - each domain in it is loaded at most once`);
+  }
+
+  // Semantic matching has no default threshold and stays off without one
+  if (
+    manifest.semantic.threshold === undefined &&
+    Object.values(manifest.domains).some((domain) => domain.semantic ?? manifest.semantic.enabled)
+  ) {
+    warnings.push(
+      "semantic matching is enabled but semantic.threshold is not set - it stays off until a threshold (e.g. 0.2) is chosen"
+    );
+  }
 
-  if (commandsRaw !== null) {
+  // Validate regex / wildcard keyword patterns (invalid ones are ignored when matching)
+  // and point out literals that look like unprefixed patterns
+  for (const keyword of manifest.globalExclude) {
+    const error = validateKeyword(keyword);
+    const source = [...acceptedLayers]
+      .reverse()
+      .find(({ manifestRaw: raw }) => isPlainObject(raw) && Array.isArray(raw.globalExclude) && raw.globalExclude.includes(keyword));
+    const prefix = source ? layerPrefix(source.layer, layers) : "";
+    if (error) warnings.push(`${prefix}globalExclude pattern "${keyword}" is invalid and will be ignored: ${error}`);
+    const suggestion = suggestKeywordPattern(keyword);
+    if (suggestion) {
+      warnings.push(`${prefix}globalExclude entry "${keyword}" is matched literally - write "${suggestion}" to use it as a pattern`);
+    }
+  }
+  for (const [name, domain] of Object.entries(manifest.domains)) {
+    for (const [field, keywords] of [["recall", domain.recall], ["exclude", domain.exclude]] as const) {
+      for (const keyword of keywords) {
+        const error = validateKeyword(keyword);
+        if (error) {
+          warnings.push(
+            `${layerPrefix(domainSources[name], layers)}Domain "${name}" ${field} pattern "${keyword}" is invalid and will be ignored: ${error}`
+          );
+        }
+        const suggestion = suggestKeywordPattern(keyword);
+        if (suggestion) {
+          warnings.push(
+            `${layerPrefix(domainSources[name], layers)}Domain "${name}" ${field} entry "${keyword}" is matched literally - write "${suggestion}" to use it as a pattern`
+          );
+        }
+      }
+    }
+  }
+
+  // commands.json (optional - defaults to empty, merged per command name)
+  let commands: CommandsFile = {};
+  for (const layer of layers) {
+    let commandsName = "commands.json";
     try {
-      commands = CommandsFileSchema.parse(commandsRaw);
+      const commandsFile = await readConfigFile(layer.configPath, "commands");
+      if (commandsFile !== null) {
+        commandsName = path.basename(commandsFile.filePath);
+        warnIgnoredVariants(commandsFile, warnings);
+        commands = { ...commands, ...CommandsFileSchema.parse(commandsFile.data) };
+      }
     } catch (err) {
       if (err instanceof ZodError) {
         warnings.push(
-          `commands.json has validation errors (using defaults):\n${formatZodErrors(err)}`
+          `${layerPrefix(layer, layers)}${commandsName} has validation errors (using defaults):\n${formatZodErrors(err)}`
         );
-      } else if (err instanceof SyntaxError) {
-        warnings.push(`commands.json has invalid JSON syntax (using defaults)`);
+        failedLayers.add(layer);
+      } else if (err instanceof ConfigSyntaxError) {
+        warnings.push(`${layerPrefix(layer, layers)}${err.message} (using defaults)`);
+        failedLayers.add(layer);
       }
     }
   }
 
   // context.json (optional - defaults to empty with default thresholds)
-  const contextPath = path.join(configPath, "context.json");
   let context: ContextFile = ContextFileSchema.parse({});
-  const contextRaw = await readJsonFile(contextPath);
-
-  if (contextRaw !== null) {
+  let contextRaw: unknown = {};
+  let thresholdsSource: { layer: ConfigLayer; fileName: string } | null = null;
+  for (const layer of layers) {
+    const prefix = layerPrefix(layer, layers);
+    let contextFile: ConfigFile | null;
     try {
-      context = ContextFileSchema.parse(contextRaw);
+      contextFile = await readConfigFile(layer.configPath, "context");
     } catch (err) {
-      if (err instanceof ZodError) {
-        warnings.push(
-          `context.json has validation errors (using defaults):\n${formatZodErrors(err)}`
-        );
-      } else if (err instanceof SyntaxError) {
-        warnings.push(`context.json has invalid JSON syntax (using defaults)`);
+      if (err instanceof ConfigSyntaxError) {
+        warnings.push(`${prefix}${err.message} (layer's context ignored)`);
+        failedLayers.add(layer);
       }
+      continue;
+    }
+    if (contextFile === null) continue;
+    warnIgnoredVariants(contextFile, warnings);
+
+    // Validate after every layer so errors point at the layer that caused them
+    const fileName = path.basename(contextFile.filePath);
+    const candidateRaw = mergeConfigObjects(contextRaw, contextFile.data);
+    const parsed = ContextFileSchema.safeParse(candidateRaw);
+    if (!parsed.success) {
+      warnings.push(
+        `${prefix}${fileName} has validation errors (layer's context ignored):\n${formatZodErrors(parsed.error)}`
+      );
+      failedLayers.add(layer);
+      continue;
+    }
+    contextRaw = candidateRaw;
+    context = parsed.data;
+    if (isPlainObject(contextFile.data) && contextFile.data.thresholds !== undefined) {
+      thresholdsSource = { layer, fileName };
     }
   }
 
   // Validate context thresholds make sense
+  const thresholdsPrefix = thresholdsSource
+    ? `${layerPrefix(thresholdsSource.layer, layers)}${thresholdsSource.fileName}`
+    : "context.json";
   if (context.thresholds.moderate >= context.thresholds.depleted) {
     warnings.push(
-      `context.json: moderate threshold (${context.thresholds.moderate}) should be less than depleted (${context.thresholds.depleted})`
+      `${thresholdsPrefix}: moderate threshold (${context.thresholds.moderate}) should be less than depleted (${context.thresholds.depleted})`
     );
   }
   if (context.thresholds.depleted >= context.thresholds.critical) {
     warnings.push(
-      `context.json: depleted threshold (${context.thresholds.depleted}) should be less than critical (${context.thresholds.critical})`
+      `${thresholdsPrefix}: depleted threshold (${context.thresholds.depleted}) should be less than critical (${context.thresholds.critical})`
     );
   }
 
-  return { manifest, commands, context, configPath, warnings };
+  return {
+    manifest,
+    commands,
+    context,
+    configPath: primary.configPath,
+    layers,
+    domainSources,
+    warnings,
+    failedLayers: layers.filter((layer) => failedLayers.has(layer)),
+  };
+}
+
+export interface DomainFile {
+  /** Metadata from the front-matter block, or null when the file has none */
+  frontMatter: Record<string, unknown> | null;
+
+  /** Why the front-matter block was rejected, or null */
+  frontMatterError: string | null;
+
+  /** Rules parsed from the Markdown body */
+  rules: string[];
 }
 
-const domainFileCache = new Map<string, { mtimeMs: number; rules: string[] }>();
+const domainFileCache = new Map<string, { mtimeMs: number; file: DomainFile }>();
 
 /**
- * Parse a domain rule file (.md).
- *
- * Extracts rules from bullet points (lines starting with "- ") and free text.
- * Ignores headings (#) and empty lines.
+ * Read a domain file (.md) into its front-matter and rules.
  * Uses a memory cache based on file modification time.
+ * Returns an empty result when the file can't be read.
  */
-export async function parseDomainFile(filePath: string): Promise<string[]> {
-  let content: string;
+export async function readDomainFile(filePath: string): Promise<DomainFile> {
   try {
     const stats = await fs.promises.stat(filePath);
     const cached = domainFileCache.get(filePath);
     if (cached && cached.mtimeMs === stats.mtimeMs) {
-      return cached.rules;
+      return cached.file;
     }
-    content = await fs.promises.readFile(filePath, "utf-8");
+    let content = await fs.promises.readFile(filePath, "utf-8");
     content = content.replace(/\r\n/g, "\n");
-    
-    const rules = parseDomainFileContent(content);
-    domainFileCache.set(filePath, { mtimeMs: stats.mtimeMs, rules });
-    return rules;
+
+    const { data, body, error } = parseFrontMatter(content);
+    const file: DomainFile = { frontMatter: data, frontMatterError: error, rules: parseDomainFileContent(body) };
+    domainFileCache.set(filePath, { mtimeMs: stats.mtimeMs, file });
+    return file;
   } catch {
-    return [];
+    return { frontMatter: null, frontMatterError: null, rules: [] };
   }
 }
 
+/**
+ * Parse a domain rule file (.md).
+ *
+ * Skips an optional front-matter block (see frontmatter.ts).
+ * Extracts rules from bullet points (lines starting with "- ") and free text.
+ * Ignores headings (#) and empty lines.
+ */
+export async function parseDomainFile(filePath: string): Promise<string[]> {
+  return (await readDomainFile(filePath)).rules;
+}
+
 function parseDomainFileContent(content: string): string[] {
   const lines = content.split("\n");
   const rules: string[] = [];
@@ -234,6 +706,9 @@ function parseDomainFileContent(content: string): string[] {
  * Reload config from disk. Used when config might have changed
  * (e.g., user edited manifest.json via /carly command).
  */
-export async function reloadConfig(configPath: string): Promise<CarlyConfig> {
-  return await loadConfig(configPath);
+export async function reloadConfig(
+  source: string | ConfigLayer[],
+  options: LoadConfigOptions = {}
+): Promise<CarlyConfig> {
+  return await loadConfig(source, options);
 }
@@ -0,0 +1,184 @@
+/**
+ * OpenCarly Manifest Migrations
+ *
+ * Upgrades raw manifest data from older schema versions to the
+ * current one before validation. Each step receives the raw object for
+ * version N and returns it as version N+1, recording what it changed.
+ *
+ * Version history:
+ * - v1: original format
+ * - v2: per-domain `priority` and `description`
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { applyEdits, modify, type JSONPath } from "jsonc-parser";
+import { stringify as stringifyYaml } from "yaml";
+import { parseFrontMatter } from "./frontmatter";
+import { parseJsonc } from "./parser";
+
+export const CURRENT_MANIFEST_VERSION = 2;
+
+export interface MigrationResult {
+  /** Raw manifest data at the current version */
+  manifestRaw: unknown;
+
+  /** Version found on disk (files without a version are treated as v1) */
+  fromVersion: number;
+
+  /** Human-readable list of changes made during migration */
+  changes: string[];
+}
+
+type RawManifest = Record<string, unknown>;
+
+type MigrationStep = (
+  manifest: RawManifest,
+  configPath: string,
+  changes: string[]
+) => Promise<RawManifest>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Extract the intro paragraph of a domain file: free text after the first
+ * heading and before the first list item. Returns null if there is none.
+ */
+function extractIntro(content: string): string | null {
+  const { body } = parseFrontMatter(content.replace(/\r\n/g, "\n"));
+  const lines: string[] = [];
+
+  for (const line of body.split("\n")) {
+    const trimmed = line.trim();
+    if (/^#+(\s|$)/.test(trimmed)) {
+      if (lines.length > 0) break;
+      continue;
+    }
+    if (/^([-*+]|\d+\.)\s+/.test(line) || trimmed.startsWith("```")) break;
+    if (trimmed === "") {
+      if (lines.length > 0) break;
+      continue;
+    }
+    lines.push(trimmed);
+  }
+
+  return lines.length > 0 ? lines.join(" ") : null;
+}
+
+/**
+ * v1 -> v2: seed each domain's `description` from the intro paragraph of
+ * its rule file. `priority` is new in v2 but defaults in the schema, so
+ * it is not written out.
+ */
+const migrateV1ToV2: MigrationStep = async (manifest, configPath, changes) => {
+  const result: RawManifest = { ...manifest, version: 2 };
+  if (!isPlainObject(manifest.domains)) return result;
+
+  const domains: Record<string, unknown> = {};
+  for (const [name, domain] of Object.entries(manifest.domains)) {
+    domains[name] = domain;
+    if (!isPlainObject(domain) || typeof domain.file !== "string") continue;
+    if (typeof domain.description === "string") continue;
+
+    try {
+      const content = await fs.promises.readFile(path.resolve(configPath, domain.file), "utf-8");
+      const intro = extractIntro(content);
+      if (intro) {
+        domains[name] = { ...domain, description: intro };
+        changes.push(`domain "${name}": description taken from ${domain.file}`);
+      }
+    } catch {
+      // Missing files are reported by loadConfig
+    }
+  }
+  result.domains = domains;
+  return result;
+};
+
+/** Migration steps keyed by the version they upgrade from */
+const MIGRATIONS: Record<number, MigrationStep> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * Bring raw manifest data up to CURRENT_MANIFEST_VERSION.
+ * Non-object input is returned untouched so schema validation can report it.
+ * Throws when the file is newer than this version of OpenCarly understands.
+ */
+export async function migrateManifest(
+  manifestRaw: unknown,
+  configPath: string
+): Promise<MigrationResult> {
+  if (!isPlainObject(manifestRaw)) {
+    return { manifestRaw, fromVersion: CURRENT_MANIFEST_VERSION, changes: [] };
+  }
+
+  const fromVersion = typeof manifestRaw.version === "number" ? manifestRaw.version : 1;
+  if (fromVersion > CURRENT_MANIFEST_VERSION) {
+    throw new Error(
+      `OpenCarly: manifest version ${fromVersion} is newer than supported (${CURRENT_MANIFEST_VERSION}). Update OpenCarly.`
+    );
+  }
+
+  const changes: string[] = [];
+  let current: RawManifest = manifestRaw;
+  for (let version = fromVersion; version < CURRENT_MANIFEST_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`OpenCarly: no migration from manifest version ${version}`);
+    }
+    current = await step(current, configPath, changes);
+  }
+
+  return { manifestRaw: current, fromVersion, changes };
+}
+
+/** Formatting for values inserted into JSON(C) manifests */
+const JSON_EDIT_OPTIONS = { formattingOptions: { insertSpaces: true, tabSize: 2, eol: "\n" } };
+
+/**
+ * Apply the differences between `before` and `after` to JSON(C) text as
+ * targeted edits, so comments and formatting outside the changed values
+ * are kept. Arrays are replaced as a whole.
+ */
+function applyJsonChanges(text: string, before: unknown, after: unknown, jsonPath: JSONPath = []): string {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    if (JSON.stringify(before) === JSON.stringify(after)) return text;
+    return applyEdits(text, modify(text, jsonPath, after, JSON_EDIT_OPTIONS));
+  }
+
+  let result = text;
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) {
+      result = applyEdits(result, modify(result, [...jsonPath, key], undefined, JSON_EDIT_OPTIONS));
+    }
+  }
+  for (const [key, value] of Object.entries(after)) {
+    result = applyJsonChanges(result, before[key], value, [...jsonPath, key]);
+  }
+  return result;
+}
+
+/**
+ * Write a migrated manifest back to `manifestPath`, keeping the original as
+ * <file>.v{fromVersion}.bak. YAML manifests are re-serialized as YAML. JSON
+ * and JSONC manifests are edited in place, so comments and formatting
+ * survive. Returns the backup path.
+ */
+export async function writeMigratedManifest(
+  manifestPath: string,
+  migration: MigrationResult
+): Promise<string> {
+  const backupPath = `${manifestPath}.v${migration.fromVersion}.bak`;
+  const ext = path.extname(manifestPath).toLowerCase();
+  const original = await fs.promises.readFile(manifestPath, "utf-8");
+  const content =
+    ext === ".yaml" || ext === ".yml"
+      ? stringifyYaml(migration.manifestRaw)
+      : applyJsonChanges(original, parseJsonc(original, manifestPath), migration.manifestRaw);
+  await fs.promises.copyFile(manifestPath, backupPath);
+  await fs.promises.writeFile(manifestPath, content, "utf-8");
+  return backupPath;
+}
@@ -0,0 +1,175 @@
+/**
+ * OpenCarly Config File Parsing
+ *
+ * manifest, commands and context files can be written as:
+ * - `.json` / `.jsonc` - JSON with comments and trailing commas allowed
+ * - `.yaml` / `.yml`   - YAML
+ *
+ * Syntax errors are raised as ConfigSyntaxError carrying the line and
+ * column of the problem, so warnings can point at the exact spot.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseTree, printParseErrorCode, type Node as JsonNode, type ParseError } from "jsonc-parser";
+import { parse as parseYamlDocument, YAMLParseError } from "yaml";
+
+/** Supported extensions, in the order they are looked up */
+export const CONFIG_EXTENSIONS = [".json", ".jsonc", ".yaml", ".yml"];
+
+export class ConfigSyntaxError extends SyntaxError {
+  constructor(
+    /** Absolute path of the file that failed to parse */
+    readonly filePath: string,
+    readonly line: number,
+    readonly column: number,
+    readonly detail: string
+  ) {
+    super(`${path.basename(filePath)} has invalid syntax at line ${line}, column ${column}: ${detail}`);
+    this.name = "ConfigSyntaxError";
+  }
+}
+
+export interface ConfigFile {
+  /** Absolute path of the file that was read */
+  filePath: string;
+
+  /** Parsed content */
+  data: unknown;
+
+  /** Other variants of the same config file that were ignored (e.g. manifest.yaml next to manifest.json) */
+  ignored: string[];
+}
+
+// ---------------------------------------------------------------------------
+// JSONC
+// ---------------------------------------------------------------------------
+
+function lineColumn(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/** Readable descriptions of jsonc-parser error codes */
+const JSONC_ERRORS: Record<string, string> = {
+  InvalidSymbol: "Unexpected character",
+  InvalidNumberFormat: "Invalid number",
+  PropertyNameExpected: "Expected a property name in double quotes",
+  ValueExpected: "Expected a value",
+  ColonExpected: 'Expected ":" after property name',
+  CommaExpected: 'Expected ","',
+  CloseBraceExpected: 'Expected "}"',
+  CloseBracketExpected: 'Expected "]"',
+  EndOfFileExpected: "Unexpected content after end of value",
+  InvalidCommentToken: "Invalid comment",
+  UnexpectedEndOfComment: "Unterminated block comment",
+  UnexpectedEndOfString: "Unterminated string",
+  UnexpectedEndOfNumber: "Unterminated number",
+  InvalidUnicode: "Invalid unicode escape in string",
+  InvalidEscapeCharacter: "Invalid escape sequence in string",
+  InvalidCharacter: "Control character in string (tabs and newlines must be escaped)",
+};
+
+/**
+ * Convert a jsonc-parser syntax tree to plain data. Properties are defined
+ * rather than assigned, so a "__proto__" key stays plain data like with JSON.parse.
+ */
+function nodeToValue(node: JsonNode): unknown {
+  if (node.type === "object") {
+    const result: Record<string, unknown> = {};
+    for (const property of node.children ?? []) {
+      const [key, value] = property.children ?? [];
+      if (!key || !value) continue;
+      Object.defineProperty(result, key.value as string, {
+        value: nodeToValue(value),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+  if (node.type === "array") return (node.children ?? []).map(nodeToValue);
+  return node.value;
+}
+
+/**
+ * Parse JSON with `//` and `/* *\/` comments and trailing commas.
+ * The first syntax error is raised with its line and column.
+ */
+export function parseJsonc(text: string, filePath: string): unknown {
+  // jsonc-parser does not skip a byte order mark; blank it out to keep offsets
+  const source = text.startsWith("\uFEFF") ? " " + text.slice(1) : text;
+  const errors: ParseError[] = [];
+  const tree = parseTree(source, errors, { allowTrailingComma: true, allowEmptyContent: false });
+
+  if (errors.length > 0 || !tree) {
+    const error = errors[0];
+    const { line, column } = lineColumn(source, error?.offset ?? 0);
+    const code = error ? printParseErrorCode(error.error) : "ValueExpected";
+    throw new ConfigSyntaxError(filePath, line, column, JSONC_ERRORS[code] ?? code);
+  }
+  return nodeToValue(tree);
+}
+
+// ---------------------------------------------------------------------------
+// YAML
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse YAML, converting parser errors into ConfigSyntaxError.
+ * An empty document parses as an empty object.
+ */
+export function parseYaml(text: string, filePath: string): unknown {
+  try {
+    const data = parseYamlDocument(text);
+    return data === null || data === undefined ? {} : data;
+  } catch (err) {
+    if (err instanceof YAMLParseError) {
+      const position = err.linePos?.[0] ?? { line: 1, col: 1 };
+      const detail = err.message.split(/ at line \d+/)[0];
+      throw new ConfigSyntaxError(filePath, position.line, position.col, detail);
+    }
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// File lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse config text according to the file's extension.
+ */
+export function parseConfigText(text: string, filePath: string): unknown {
+  const ext = path.extname(filePath).toLowerCase();
+  return ext === ".yaml" || ext === ".yml" ? parseYaml(text, filePath) : parseJsonc(text, filePath);
+}
+
+/**
+ * List existing variants of a config file (e.g. "manifest") in lookup order.
+ */
+export function findConfigFiles(dir: string, baseName: string): string[] {
+  return CONFIG_EXTENSIONS
+    .map((ext) => path.join(dir, baseName + ext))
+    .filter((filePath) => fs.existsSync(filePath));
+}
+
+/**
+ * Read a config file by base name, trying each supported extension.
+ * Returns null if no variant exists. Throws ConfigSyntaxError on bad syntax.
+ */
+export async function readConfigFile(dir: string, baseName: string): Promise<ConfigFile | null> {
+  const [filePath, ...ignored] = findConfigFiles(dir, baseName);
+  if (!filePath) return null;
+
+  const raw = await fs.promises.readFile(filePath, "utf-8");
+  return { filePath, data: parseConfigText(raw, filePath), ignored };
+}
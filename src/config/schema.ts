@@ -10,6 +10,69 @@
 
 import { z } from "zod";
 
+// ---------------------------------------------------------------------------
+// Project Stack Detection (inside manifest.json domains)
+// ---------------------------------------------------------------------------
+
+export const DetectConditionSchema = z.object({
+  /**
+   * Dependency names from package.json, pyproject.toml, requirements*.txt,
+   * go.mod or Cargo.toml (globs allowed, e.g. "@prisma/*")
+   */
+  dependencies: z.array(z.string()).default([]),
+
+  /** File names or globs at the workspace root (e.g. "Dockerfile", "*.csproj") */
+  files: z.array(z.string()).default([]),
+});
+
+export type DetectCondition = z.infer<typeof DetectConditionSchema>;
+
+// ---------------------------------------------------------------------------
+// Git Triggers (inside manifest.json domains)
+// ---------------------------------------------------------------------------
+
+export const GIT_OPERATIONS = ["merge", "rebase", "cherry-pick", "revert", "bisect"] as const;
+
+export type GitOperation = (typeof GIT_OPERATIONS)[number];
+
+export const GitTriggerSchema = z.object({
+  /** Branch names or globs (e.g., "release/*") */
+  branch: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .default([]),
+
+  /** Operations in progress that trigger this domain (e.g., ["merge", "rebase"]) */
+  operations: z.array(z.enum(GIT_OPERATIONS)).default([]),
+
+  /** Match the domain's `paths` against uncommitted changes ("changed") or staged files only ("staged") */
+  changes: z.enum(["changed", "staged"]).optional(),
+});
+
+export type GitTrigger = z.infer<typeof GitTriggerSchema>;
+
+// ---------------------------------------------------------------------------
+// Agent / Model Filters (inside manifest.json domains and commands.json)
+// ---------------------------------------------------------------------------
+
+/**
+ * Allow/deny list of agent names or model IDs (case-insensitive globs).
+ * A plain array is shorthand for `{ allow: [...] }`.
+ */
+export const AudienceFilterSchema = z
+  .union([
+    z.array(z.string()),
+    z.object({
+      /** Only these may receive the rules (empty = everyone) */
+      allow: z.array(z.string()).default([]),
+      /** Never these - deny wins over allow */
+      deny: z.array(z.string()).default([]),
+    }),
+  ])
+  .transform((value) => (Array.isArray(value) ? { allow: value, deny: [] } : value));
+
+export type AudienceFilter = z.infer<typeof AudienceFilterSchema>;
+
 // ---------------------------------------------------------------------------
 // Domain Configuration (inside manifest.json)
 // ---------------------------------------------------------------------------
@@ -21,28 +84,205 @@ export const DomainConfigSchema = z.object({
   /** If true, domain rules load on every prompt (no keyword matching) */
   alwaysOn: z.boolean().default(false),
 
-  /** Keywords that trigger this domain (substring match, case-insensitive) */
+  /** Load on every prompt when the workspace uses any of these dependencies or files */
+  detect: DetectConditionSchema.optional(),
+
+  /** Repository state that triggers this domain (requires manifest `git.enabled`) */
+  git: GitTriggerSchema.optional(),
+
+  /** Keywords that trigger this domain (case-insensitive words, `glob:` word patterns, or `re:` regexes) */
   recall: z.array(z.string()).default([]),
 
-  /** Keywords that prevent this domain from loading */
+  /** Weight of each recall entry, keyed by the entry as written (unlisted entries weigh 1) */
+  weights: z.record(z.number()).default({}),
+
+  /** Minimum summed weight of matched recall entries needed to load this domain */
+  minScore: z.number().default(1),
+
+  /** Per-domain override of the manifest's `stemming` setting */
+  stemming: z.boolean().optional(),
+
+  /** Per-domain override of the manifest's `fuzzy.enabled` setting */
+  fuzzy: z.boolean().optional(),
+
+  /** Per-domain override of the manifest's `semantic.enabled` setting */
+  semantic: z.boolean().optional(),
+
+  /** Per-domain override of the manifest's `negation` setting */
+  negation: z.boolean().optional(),
+
+  /** Per-domain override of the manifest's `proseOnly` setting */
+  proseOnly: z.boolean().optional(),
+
+  /** Fenced code block language tags that trigger this domain (e.g., ["python", "py"]) */
+  languages: z.array(z.string()).default([]),
+
+  /** Also match `paths` against file paths found inside pasted code and traces */
+  codePaths: z.boolean().default(false),
+
+  /** Keywords that prevent this domain from loading (same pattern syntax as recall) */
   exclude: z.array(z.string()).default([]),
 
   /** File paths/globs that trigger this domain (e.g., ["*.tsx", "src/components/*"]) */
   paths: z.array(z.string()).default([]),
 
+  /**
+   * Directory globs, relative to the config root, the session cwd or an active
+   * file must be under for this domain to exist at all (e.g., ["packages/web"]).
+   * Empty means everywhere.
+   */
+  scope: z.array(z.string()).default([]),
+
+  /** OpenCode agents (e.g., "build", "plan") this domain loads for */
+  agents: AudienceFilterSchema.optional(),
+
+  /** Models ("modelID" or "providerID/modelID") this domain loads for */
+  models: AudienceFilterSchema.optional(),
+
   /** Path to the domain rule file, relative to .opencarly/ */
   file: z.string(),
+
+  /** Short summary shown next to the domain in the AVAILABLE list */
+  description: z.string().optional(),
+
+  /** Ordering among loaded domains - higher priority rules are listed first */
+  priority: z.number().default(0),
+
+  /** Keep loading this domain for this many prompts after it last matched (0 = off) */
+  stickyPrompts: z.number().int().min(0).default(0),
+
+  /** Domains that are loaded whenever this one loads */
+  requires: z.array(z.string()).default([]),
+
+  /** Domains that must never load together with this one */
+  conflicts: z.array(z.string()).default([]),
 });
 
 export type DomainConfig = z.infer<typeof DomainConfigSchema>;
 
+// ---------------------------------------------------------------------------
+// Profiles (inside manifest.json)
+// ---------------------------------------------------------------------------
+
+export const ProfileSchema = z.object({
+  /** What this profile is for (e.g. "Pairing - verbose, explain everything") */
+  description: z.string().optional(),
+
+  /** Override DEVMODE while this profile is active */
+  devmode: z.boolean().optional(),
+
+  /** Per-domain state overlay: true = active, false = inactive */
+  domainStates: z.record(z.string(), z.boolean()).default({}),
+
+  /** Star-command system overlay */
+  commands: z
+    .object({
+      state: z.enum(["active", "inactive"]).optional(),
+      /** Replaces the manifest's always-active star-commands */
+      active: z.array(z.string()).optional(),
+    })
+    .default({}),
+
+  /** Context bracket system overlay */
+  context: z
+    .object({
+      state: z.enum(["active", "inactive"]).optional(),
+    })
+    .default({}),
+});
+
+export type Profile = z.infer<typeof ProfileSchema>;
+
+// ---------------------------------------------------------------------------
+// Fuzzy Matching (inside manifest.json)
+// ---------------------------------------------------------------------------
+
+export const FuzzyConfigSchema = z
+  .object({
+    /** Let recall keywords match prompt words with small typos */
+    enabled: z.boolean().default(false),
+
+    /** Most edits tolerated per keyword (one per five characters, up to this cap) */
+    maxDistance: z.number().int().min(1).max(3).default(2),
+
+    /** Keywords shorter than this are only matched exactly */
+    minLength: z.number().int().min(3).default(5),
+  })
+  .default({});
+
+export type FuzzyConfig = z.infer<typeof FuzzyConfigSchema>;
+
+// ---------------------------------------------------------------------------
+// Semantic Matching (inside manifest.json)
+// ---------------------------------------------------------------------------
+
+export const SemanticConfigSchema = z
+  .object({
+    /** Load domains whose rule text is similar to the prompt, even without keyword hits */
+    enabled: z.boolean().default(false),
+
+    /**
+     * Minimum cosine similarity (0-1) between prompt and domain to load it.
+     * No default: useful values depend on the rule files, so semantic
+     * matching stays off until a threshold is set.
+     */
+    threshold: z.number().min(0).max(1).optional(),
+  })
+  .default({});
+
+export type SemanticConfig = z.infer<typeof SemanticConfigSchema>;
+
+// ---------------------------------------------------------------------------
+// Agent Activity Matching (inside manifest.json)
+// ---------------------------------------------------------------------------
+
+export const ActivityConfigSchema = z
+  .object({
+    /** Match recall keywords against recent tool inputs (bash commands, file paths, search patterns) */
+    toolInputs: z.boolean().default(true),
+
+    /** Also match against the text of the latest assistant message */
+    assistantText: z.boolean().default(false),
+
+    /** Number of recent assistant messages of the latest turn to collect tool inputs from */
+    lookback: z.number().int().min(1).default(3),
+  })
+  .default({});
+
+export type ActivityConfig = z.infer<typeof ActivityConfigSchema>;
+
+// ---------------------------------------------------------------------------
+// Git Signal (inside manifest.json)
+// ---------------------------------------------------------------------------
+
+export const GitConfigSchema = z
+  .object({
+    /** Read branch, changed files and operations in progress for domain `git` triggers */
+    enabled: z.boolean().default(false),
+
+    /** Run `git status` for changed/staged files (branch and operations only read .git) */
+    changes: z.boolean().default(true),
+  })
+  .default({});
+
+export type GitConfig = z.infer<typeof GitConfigSchema>;
+
 // ---------------------------------------------------------------------------
 // Manifest (manifest.json)
 // ---------------------------------------------------------------------------
 
 export const ManifestSchema = z.object({
-  /** Schema version for forward compatibility */
-  version: z.literal(1).default(1),
+  /** Schema version (older files are migrated on load, see migrations.ts) */
+  version: z.literal(2).default(2),
+
+  /**
+   * Rule packs to inherit: config directory paths (relative to this .opencarly/)
+   * or npm package names providing a .opencarly/ folder
+   */
+  extends: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .default([]),
 
   /** Enable DEVMODE debug output */
   devmode: z.boolean().default(false),
@@ -50,6 +290,27 @@ export const ManifestSchema = z.object({
   /** Global exclusion keywords - if any match, skip ALL domain matching */
   globalExclude: z.array(z.string()).default([]),
 
+  /** Match keywords by English word stem ("test" also matches "tests", "tested") */
+  stemming: z.boolean().default(false),
+
+  /** Treat negated recall hits ("don't touch the tests") as exclusions */
+  negation: z.boolean().default(false),
+
+  /** Ignore code blocks, quotes and stack traces when matching keywords and paths */
+  proseOnly: z.boolean().default(false),
+
+  /** Typo-tolerant recall matching */
+  fuzzy: FuzzyConfigSchema,
+
+  /** Local TF-IDF similarity matching against domain rule text */
+  semantic: SemanticConfigSchema,
+
+  /** Secondary match pass over what the agent did since the last prompt */
+  activity: ActivityConfigSchema,
+
+  /** Repository state as a matching signal */
+  git: GitConfigSchema,
+
   /** Domain definitions */
   domains: z.record(z.string(), DomainConfigSchema).default({}),
 
@@ -57,6 +318,8 @@ export const ManifestSchema = z.object({
   commands: z
     .object({
       state: z.enum(["active", "inactive"]).default("active"),
+      /** Star-commands applied to every prompt without typing them (lowercase, no asterisk) */
+      active: z.array(z.string()).default([]),
     })
     .default({}),
 
@@ -66,6 +329,9 @@ export const ManifestSchema = z.object({
       state: z.enum(["active", "inactive"]).default("active"),
     })
     .default({}),
+
+  /** Named overlays selectable via OPENCARLY_PROFILE or a session override */
+  profiles: z.record(z.string(), ProfileSchema).default({}),
 });
 
 export type Manifest = z.infer<typeof ManifestSchema>;
@@ -74,12 +340,68 @@ export type Manifest = z.infer<typeof ManifestSchema>;
 // Star-Command (commands.json)
 // ---------------------------------------------------------------------------
 
+export const StarCommandParamSchema = z.object({
+  /** What this parameter controls */
+  description: z.string().optional(),
+
+  /** Value type - arguments that don't parse as this type are rejected */
+  type: z.enum(["string", "number", "boolean"]).default("string"),
+
+  /** Allowed values (any value of the type if omitted) */
+  values: z.array(z.string()).optional(),
+
+  /** Value used when the argument is not given */
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+
+  /** If true and no value or default is available, the command is not applied */
+  required: z.boolean().default(false),
+});
+
+export type StarCommandParam = z.infer<typeof StarCommandParamSchema>;
+
 export const StarCommandSchema = z.object({
   /** Description of what this command does */
   description: z.string().optional(),
 
-  /** Rules injected when this command is invoked */
+  /** Other names that invoke this command (e.g. ["rv"] for *review) */
+  aliases: z.array(z.string()).default([]),
+
+  /** Commands whose rules (and params) are composed into this one, before its own rules */
+  includes: z.array(z.string()).default([]),
+
+  /**
+   * Declared arguments, e.g. `*review severity=high` or positionally `*lang python`.
+   * Positional arguments fill parameters in declaration order.
+   */
+  params: z.record(z.string(), StarCommandParamSchema).default({}),
+
+  /** OpenCode agents this command applies to */
+  agents: AudienceFilterSchema.optional(),
+
+  /** Models ("modelID" or "providerID/modelID") this command applies to */
+  models: AudienceFilterSchema.optional(),
+
+  /** Rules injected when this command is invoked ({{param}} is replaced with the argument value) */
   rules: z.array(z.string()),
+}).superRefine((command, ctx) => {
+  // A default must be a value the parameter would accept as an argument
+  for (const [name, param] of Object.entries(command.params)) {
+    if (param.default === undefined) continue;
+    const value = String(param.default).trim();
+    const path = ["params", name, "default"];
+
+    if (param.type === "number" && (value === "" || !Number.isFinite(Number(value)))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Default "${value}" is not a number` });
+    } else if (param.type === "boolean" && !["true", "false"].includes(value.toLowerCase())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Default "${value}" is not true or false` });
+    } else if (param.values && !param.values.some((allowed) => allowed.toLowerCase() === value.toLowerCase())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path,
+        message: `Default "${value}" is not one of: ${param.values.join(", ")}`,
+      });
+    }
+  }
 });
 
 export type StarCommand = z.infer<typeof StarCommandSchema>;
@@ -253,6 +575,9 @@ export const SessionOverrideSchema = z.object({
   /** Override DEVMODE for this session (null = inherit from manifest) */
   devmode: z.boolean().nullable().default(null),
 
+  /** Profile to apply for this session (null = use OPENCARLY_PROFILE, if set) */
+  profile: z.string().nullable().default(null),
+
   /** Per-domain state overrides (null = inherit from manifest) */
   domainStates: z.record(z.string(), z.boolean().nullable()).default({}),
 });
@@ -294,6 +619,20 @@ export const SessionConfigSchema = z.object({
   /** Session-specific overrides */
   overrides: SessionOverrideSchema.default({}),
 
+  /** Sticky domains still loading without a match: { domainName: promptsLeft } */
+  stickyDomains: z.record(z.string(), z.number()).default({}),
+
+  /** Persistent star-command modes turned on with `*name+`: { commandName: arguments } */
+  modes: z
+    .record(
+      z.string(),
+      z.object({
+        named: z.record(z.string(), z.string()).default({}),
+        positional: z.array(z.string()).default([]),
+      })
+    )
+    .default({}),
+
   /** Cumulative token savings stats for this session */
   tokenStats: TokenStatsSchema.default({}),
 });
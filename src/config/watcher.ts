@@ -0,0 +1,115 @@
+/**
+ * OpenCarly Config Watcher
+ *
+ * Watches every config layer for edits (manifest, commands, context and
+ * domain files) and fires a debounced callback so the plugin can reload
+ * without restarting OpenCode.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { ConfigLayer } from "./discovery";
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/** Subdirectories of a layer that hold config files worth watching */
+const WATCHED_SUBDIRS = ["domains"];
+
+export interface ConfigWatcher {
+  /** Stop watching and cancel any pending callback */
+  close(): void;
+}
+
+/**
+ * Files the plugin writes itself (sessions, stats, logs, temp files, migration backups).
+ * Reacting to these would reload the config after every prompt.
+ */
+function isIgnoredFile(fileName: string): boolean {
+  return (
+    fileName === "sessions" ||
+    fileName.startsWith("stats.json") ||
+    fileName === "debug.log" ||
+    fileName.endsWith(".tmp") ||
+    fileName.endsWith(".bak")
+  );
+}
+
+/**
+ * Watch config layers for changes.
+ *
+ * Bursts of events (editors often write a file several times per save)
+ * are collapsed into one `onChange` call after `debounceMs` of quiet.
+ * A `domains/` folder that doesn't exist yet is picked up when it appears
+ * in the layer. Watchers and the debounce timer are unref'd so they never
+ * keep the host process alive.
+ */
+export function watchConfig(
+  layers: ConfigLayer[],
+  onChange: (changedFiles: string[]) => void,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+): ConfigWatcher {
+  const watchers = new Map<string, fs.FSWatcher>();
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const schedule = (filePath: string) => {
+    changed.add(filePath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const files = [...changed];
+      changed.clear();
+      onChange(files);
+    }, debounceMs);
+    timer.unref();
+  };
+
+  const watchDir = (dir: string, onEvent?: (name: string) => void) => {
+    if (closed || watchers.has(dir)) return;
+    try {
+      const watcher = fs.watch(dir, (_event, fileName) => {
+        const name = fileName ? fileName.toString() : "";
+        if (name && isIgnoredFile(name)) return;
+        onEvent?.(name);
+        schedule(name ? path.join(dir, name) : dir);
+      });
+      watcher.on("error", () => {
+        // Directory removed or became unreadable - stop watching it quietly
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watcher.unref();
+      watchers.set(dir, watcher);
+    } catch {
+      // Missing directory or watch limit reached - non-critical
+    }
+  };
+
+  // (Re-)watch a layer subdirectory; called again when it is created, removed or replaced
+  const watchSubdir = (subdirPath: string) => {
+    watchers.get(subdirPath)?.close();
+    watchers.delete(subdirPath);
+    if (fs.existsSync(subdirPath)) watchDir(subdirPath);
+  };
+
+  for (const layer of layers) {
+    const subdirPaths = WATCHED_SUBDIRS.map((subdir) => path.join(layer.configPath, subdir));
+    watchDir(layer.configPath, (name) => {
+      for (const subdirPath of subdirPaths) {
+        if (!name || path.basename(subdirPath) === name) watchSubdir(subdirPath);
+      }
+    });
+    subdirPaths.forEach(watchSubdir);
+  }
+
+  return {
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
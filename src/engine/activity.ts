@@ -0,0 +1,98 @@
+/**
+ * OpenCarly Agent Activity Extraction
+ *
+ * Collects what the agent itself has been doing - tool inputs (bash
+ * commands, file paths, search patterns) and optionally its final reply -
+ * from the message history seen by messages.transform, and again from the
+ * full history once the session goes idle. Only the turn after the latest
+ * user message counts. The next prompt runs a secondary match pass over
+ * this text, so running `docker compose` or editing `prisma/schema.prisma`
+ * can load the matching domain.
+ */
+
+import type { ActivityConfig } from "../config/schema";
+import type { TextPart, ToolPart, TransformMessage } from "./trimmer";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RecentActivity {
+  /** Tool inputs from recent assistant messages of the latest turn, newest last */
+  toolInputs: string[];
+
+  /** Text of the final assistant message of the latest turn (null when not collected) */
+  assistantText: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/** Caps so a long agent loop can't make the secondary pass expensive */
+const MAX_TOOL_INPUTS = 50;
+const MAX_INPUT_CHARS = 500;
+const MAX_ASSISTANT_CHARS = 5000;
+
+/** Input fields worth matching for the built-in tools */
+const TOOL_INPUT_FIELDS: Record<string, string[]> = {
+  bash: ["command"],
+  read: ["filePath"],
+  edit: ["filePath"],
+  write: ["filePath"],
+  grep: ["pattern", "include", "path"],
+  glob: ["pattern", "path"],
+};
+
+/**
+ * Describe one tool call as matchable text. Unknown tools contribute
+ * all of their short string inputs.
+ */
+function describeToolInput(part: ToolPart): string {
+  const input = part.state.input ?? {};
+  const fields = TOOL_INPUT_FIELDS[part.tool] ?? Object.keys(input);
+  const values = fields
+    .map((field) => input[field])
+    .filter((value): value is string => typeof value === "string" && value.trim() !== "");
+  return values.join(" ").slice(0, MAX_INPUT_CHARS);
+}
+
+/**
+ * Collect recent agent activity from the message history.
+ * Looks at the last `config.lookback` assistant messages after the latest
+ * user message, so an earlier turn's work never leaks into the next prompt.
+ */
+export function collectRecentActivity(
+  messages: TransformMessage[],
+  config: ActivityConfig
+): RecentActivity {
+  const activity: RecentActivity = { toolInputs: [], assistantText: null };
+  let turnStart = messages.length;
+  while (turnStart > 0 && messages[turnStart - 1].info.role !== "user") turnStart--;
+  const assistantMessages = messages
+    .slice(turnStart)
+    .filter((message) => message.info.role === "assistant");
+  const recent = assistantMessages.slice(-config.lookback);
+
+  if (config.toolInputs) {
+    for (const message of recent) {
+      for (const part of message.parts) {
+        if (part.type !== "tool") continue;
+        const text = describeToolInput(part as ToolPart);
+        if (text) activity.toolInputs.push(text);
+      }
+    }
+    activity.toolInputs = activity.toolInputs.slice(-MAX_TOOL_INPUTS);
+  }
+
+  if (config.assistantText && recent.length > 0) {
+    const text = recent[recent.length - 1].parts
+      .filter((part): part is TextPart => part.type === "text" && typeof part.text === "string")
+      .map((part) => part.text)
+      .join("\n")
+      .trim();
+    if (text) activity.assistantText = text.slice(0, MAX_ASSISTANT_CHARS);
+  }
+
+  return activity;
+}
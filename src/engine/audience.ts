@@ -0,0 +1,64 @@
+/**
+ * OpenCarly Agent / Model Filters
+ *
+ * Domains and star-commands can be limited to some OpenCode agents
+ * (`agents`) or models (`models`), e.g. verbose reasoning rules only for
+ * smaller models. The chat.message hook passes the agent and model of the
+ * prompt; everything filtered out is treated as absent for that prompt.
+ */
+
+import { minimatch } from "minimatch";
+import type { AudienceFilter } from "../config/schema";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Audience {
+  /** Agent handling the prompt (e.g. "build", "plan"), null if unknown */
+  agent: string | null;
+
+  /** Model handling the prompt, null if unknown */
+  model: { providerID: string; modelID: string } | null;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function matchesAny(candidates: string[], patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    candidates.some(
+      (candidate) =>
+        candidate.toLowerCase() === pattern.toLowerCase() || minimatch(candidate, pattern, { nocase: true })
+    )
+  );
+}
+
+/**
+ * Check one filter against the names a value goes by. An unknown value
+ * (no names) passes: lists that cannot be evaluated do not hide anything.
+ */
+function passesFilter(filter: AudienceFilter | undefined, names: string[]): boolean {
+  if (!filter || names.length === 0) return true;
+  if (matchesAny(names, filter.deny)) return false;
+  return filter.allow.length === 0 || matchesAny(names, filter.allow);
+}
+
+/**
+ * Check whether a domain or star-command with `agents` / `models` filters
+ * applies to the audience. Model patterns are compared with both the model
+ * ID ("claude-haiku-4") and "providerID/modelID" ("anthropic/claude-haiku-4").
+ */
+export function isForAudience(
+  target: { agents?: AudienceFilter; models?: AudienceFilter },
+  audience: Audience
+): boolean {
+  const modelNames = audience.model
+    ? [audience.model.modelID, `${audience.model.providerID}/${audience.model.modelID}`]
+    : [];
+  return (
+    passesFilter(target.agents, audience.agent ? [audience.agent] : []) &&
+    passesFilter(target.models, modelNames)
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * OpenCarly Star-Command Arguments
+ *
+ * Parses arguments written after a star-command - `*review severity=high
+ * focus=perf` or `*lang python` - and resolves them against the command's
+ * declared `params`: defaults are applied, values are validated by type
+ * and allowed values, and `{{param}}` placeholders in the rules are
+ * replaced with the result.
+ *
+ * `*brief+` / `*brief on` and `*brief-` / `*brief off` toggle a command as
+ * a persistent mode for the session.
+ *
+ * Commands can be invoked by `aliases` and compose others via `includes`.
+ * Unknown names get "did you mean" suggestions.
+ */
+
+import type { CommandsFile, StarCommand, StarCommandParam } from "../config/schema";
+import { editDistance } from "./fuzzy";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StarCommandArgs {
+  /** `key=value` arguments, keys lowercased */
+  named: Record<string, string>;
+
+  /** Bare words after the command, in order - only used if they fit a declared parameter */
+  positional: string[];
+
+  /** Persistent mode toggle written with the command, if any */
+  toggle: "on" | "off" | null;
+}
+
+export interface ResolvedCommand {
+  /** Final value of every parameter that has one */
+  values: Record<string, string>;
+
+  /** Rules with placeholders substituted (empty if a required value is missing) */
+  rules: string[];
+
+  /** Problems with the given arguments, for display */
+  warnings: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Arguments beyond this many are treated as prose */
+const MAX_ARGS = 8;
+
+/** `*name` after whitespace, unless a closing `*` makes it emphasis (`*careful*`) */
+export const STAR_COMMAND = /(?:^|\s)\*([a-zA-Z]\w*)(?![\w*])/g;
+
+/** `+`/`-` right after the name, or a lone on/off word ending the command's line or sentence */
+const TOGGLE = /^(?:([+-])(?=\s|$)|[ \t]+(on|off)(?=\s*$|[ \t]*[\n.,;!?*]))/i;
+
+/** One argument on the same line: key=value (value optionally quoted) or a bare word */
+const ARGUMENT = /^[ \t]+(?:([a-zA-Z][\w-]*)=("[^"\n]*"|'[^'\n]*'|[^\s"']+)|([^\s*="'][^\s=]*))/;
+
+/** Punctuation ending an unquoted argument also ends the argument list */
+const TRAILING_PUNCTUATION = /[.,;:!?)]+$/;
+
+/** `{{param}}` placeholder in a command rule */
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parse the arguments written after each star-command in the prompt.
+ * Arguments run until the end of the line, the next star-command, or an
+ * unquoted argument ending in punctuation (`*lang python, then add tests`
+ * only takes "python").
+ * A command used more than once keeps its first arguments.
+ * Mode toggles (`*brief+`, `*brief off`) are recorded in `toggle`.
+ */
+export function parseStarCommandArgs(prompt: string): Record<string, StarCommandArgs> {
+  const result: Record<string, StarCommandArgs> = {};
+
+  for (const match of prompt.matchAll(STAR_COMMAND)) {
+    const name = match[1].toLowerCase();
+    if (result[name]) continue;
+
+    const args: StarCommandArgs = { named: {}, positional: [], toggle: null };
+    let rest = prompt.slice(match.index! + match[0].length);
+
+    const toggle = rest.match(TOGGLE);
+    if (toggle) {
+      const value = (toggle[1] ?? toggle[2]).toLowerCase();
+      args.toggle = value === "+" || value === "on" ? "on" : "off";
+      rest = rest.slice(toggle[0].length);
+    }
+    for (let count = 0; count < MAX_ARGS; count++) {
+      const arg = rest.match(ARGUMENT);
+      if (!arg) break;
+      const raw = arg[1] !== undefined ? arg[2] : arg[3];
+      const quoted = /^["']/.test(raw);
+      const value = quoted ? unquote(raw) : raw.replace(TRAILING_PUNCTUATION, "");
+      if (value !== "") {
+        if (arg[1] !== undefined) args.named[arg[1].toLowerCase()] = value;
+        else args.positional.push(value);
+      }
+      if (!quoted && value !== raw) break;
+      rest = rest.slice(arg[0].length);
+    }
+    result[name] = args;
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a value against a parameter declaration. Returns the normalized
+ * value, or null if it is not acceptable.
+ */
+function validateValue(value: string, param: StarCommandParam): string | null {
+  let normalized = value.trim();
+  if (param.type === "number") {
+    if (normalized === "" || !Number.isFinite(Number(normalized))) return null;
+    normalized = String(Number(normalized));
+  } else if (param.type === "boolean") {
+    const lower = normalized.toLowerCase();
+    if (["true", "yes", "on", "1"].includes(lower)) normalized = "true";
+    else if (["false", "no", "off", "0"].includes(lower)) normalized = "false";
+    else return null;
+  }
+
+  if (param.values) {
+    const allowed = param.values.find((v) => v.toLowerCase() === normalized.toLowerCase());
+    return allowed ?? null;
+  }
+  return normalized;
+}
+
+function describeExpected(param: StarCommandParam): string {
+  return param.values ? `one of: ${param.values.join(", ")}` : `a ${param.type}`;
+}
+
+/**
+ * Replace `{{param}}` placeholders. Placeholders without a value are kept;
+ * see findUnresolvedPlaceholders().
+ */
+export function renderCommandRules(rules: string[], values: Record<string, string>): string[] {
+  return rules.map((rule) =>
+    rule.replace(PLACEHOLDER, (placeholder, name: string) => values[name.toLowerCase()] ?? placeholder)
+  );
+}
+
+/**
+ * List the parameter names of placeholders left in a rendered rule.
+ */
+export function findUnresolvedPlaceholders(rule: string): string[] {
+  return [...new Set([...rule.matchAll(PLACEHOLDER)].map((match) => match[1].toLowerCase()))];
+}
+
+/**
+ * Resolve a command's arguments against its declared parameters.
+ *
+ * Named arguments are matched case-insensitively; unknown names and invalid
+ * values are reported and ignored. Bare words fill the remaining parameters
+ * in declaration order, but only when they are valid for that parameter -
+ * otherwise they are taken to be part of the prompt. Rules whose
+ * placeholders have no value are dropped with a warning rather than
+ * injected with a literal `{{name}}`.
+ */
+export function resolveCommand(
+  command: StarCommand,
+  args?: Pick<StarCommandArgs, "named" | "positional">
+): ResolvedCommand {
+  const values: Record<string, string> = {};
+  const warnings: string[] = [];
+  const params = Object.entries(command.params).map(([name, param]) => [name.toLowerCase(), param] as const);
+  const declared = new Map(params);
+
+  for (const [name, value] of Object.entries(args?.named ?? {})) {
+    const param = declared.get(name);
+    if (!param) {
+      warnings.push(`unknown argument "${name}"`);
+      continue;
+    }
+    const valid = validateValue(value, param);
+    if (valid === null) {
+      warnings.push(`${name}=${value} ignored (expected ${describeExpected(param)})`);
+    } else {
+      values[name] = valid;
+    }
+  }
+
+  const positional = [...(args?.positional ?? [])];
+  for (const [name, param] of params) {
+    if (values[name] !== undefined || positional.length === 0) continue;
+    const valid = validateValue(positional[0], param);
+    if (valid !== null) {
+      values[name] = valid;
+      positional.shift();
+    }
+  }
+
+  for (const [name, param] of params) {
+    if (values[name] === undefined && param.default !== undefined) {
+      values[name] = String(param.default);
+    }
+  }
+
+  const missing = params.filter(([name, param]) => param.required && values[name] === undefined);
+  if (missing.length > 0) {
+    warnings.push(`missing required ${missing.map(([name]) => name).join(", ")} - command not applied`);
+    return { values, rules: [], warnings };
+  }
+
+  const rules: string[] = [];
+  const unresolved = new Set<string>();
+  for (const rule of renderCommandRules(command.rules, values)) {
+    const names = findUnresolvedPlaceholders(rule);
+    if (names.length === 0) rules.push(rule);
+    else names.forEach((name) => unresolved.add(name));
+  }
+  if (unresolved.size > 0) {
+    const placeholders = [...unresolved].map((name) => `{{${name}}}`).join(", ");
+    warnings.push(`no value for ${placeholders} - rules using ${unresolved.size > 1 ? "them" : "it"} skipped`);
+  }
+
+  return { values, rules, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Lookup and composition
+// ---------------------------------------------------------------------------
+
+/** At most this many "did you mean" suggestions */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Find the command a star-command name refers to, by name or alias
+ * (case-insensitive). Returns the command's own name, or null.
+ */
+export function findCommand(commands: CommandsFile, name: string): string | null {
+  const lower = name.toLowerCase();
+  if (commands[lower]) return lower;
+
+  for (const [commandName, command] of Object.entries(commands)) {
+    if (commandName.toLowerCase() === lower) return commandName;
+    if (command.aliases.some((alias) => alias.toLowerCase() === lower)) return commandName;
+  }
+  return null;
+}
+
+/**
+ * Build the effective command for `name`: the rules of every included
+ * command (recursively, depth-first) followed by its own, deduplicated,
+ * and the params of all of them - a command's own declaration wins.
+ * Include cycles and unknown includes are skipped.
+ */
+export function composeCommand(commands: CommandsFile, name: string): StarCommand {
+  const rules: string[] = [];
+  const params: StarCommand["params"] = {};
+  const visited = new Set<string>();
+
+  const visit = (commandName: string) => {
+    if (visited.has(commandName)) return;
+    visited.add(commandName);
+    const command = commands[commandName];
+
+    for (const include of command.includes) {
+      const included = findCommand(commands, include);
+      if (included) visit(included);
+    }
+    rules.push(...command.rules);
+    Object.assign(params, command.params);
+  };
+  visit(name);
+
+  return { ...commands[name], params, rules: [...new Set(rules)] };
+}
+
+/**
+ * Suggest known command names (and aliases) close to an unknown one:
+ * within one edit per three characters, or starting with it.
+ */
+export function suggestCommands(commands: CommandsFile, name: string): string[] {
+  const lower = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(lower.length / 3));
+  const candidates = Object.entries(commands).flatMap(([commandName, command]) => [
+    commandName,
+    ...command.aliases,
+  ]);
+
+  return [...new Set(candidates.map((candidate) => candidate.toLowerCase()))]
+    .map((candidate) => ({
+      candidate,
+      distance:
+        lower.length >= 3 && candidate.startsWith(lower) ? 0 : editDistance(lower, candidate, maxDistance),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
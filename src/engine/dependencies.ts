@@ -0,0 +1,115 @@
+/**
+ * OpenCarly Domain Dependencies
+ *
+ * Resolves `requires` and `conflicts` between domains after matching:
+ * - A loaded domain pulls in every domain it requires (transitively)
+ * - Two conflicting domains never load together - the one considered
+ *   first wins: directly loaded before pulled-in, then by priority, then
+ *   manifest order
+ */
+
+import type { Manifest } from "../config/schema";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DependencyResolution {
+  /** Domains to load, in load order (direct domains first, then pulled-in ones) */
+  domains: string[];
+
+  /** Domains pulled in by `requires`: { domainName: requiringDomain } */
+  requiredBy: Record<string, string>;
+
+  /** Domains dropped because of `conflicts`: { domainName: conflictingDomain } */
+  suppressed: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Check whether two domains conflict. Conflicts are symmetric, so it is
+ * enough for either domain to declare the other.
+ */
+function conflictsWith(manifest: Manifest, a: string, b: string): boolean {
+  return (
+    (manifest.domains[a]?.conflicts.includes(b) ?? false) ||
+    (manifest.domains[b]?.conflicts.includes(a) ?? false)
+  );
+}
+
+/**
+ * Expand `requires` and apply `conflicts` to the directly loaded domains.
+ *
+ * `direct` must already be ordered by precedence. Required domains are
+ * only pulled in when `canPullIn` allows it (e.g. active and in scope).
+ */
+export function resolveDependencies(
+  manifest: Manifest,
+  direct: string[],
+  canPullIn: (domainName: string) => boolean
+): DependencyResolution {
+  const resolution: DependencyResolution = { domains: [], requiredBy: {}, suppressed: {} };
+  const seen = new Set<string>();
+  const queue: Array<{ name: string; requiredBy: string | null }> = direct.map((name) => ({
+    name,
+    requiredBy: null,
+  }));
+
+  while (queue.length > 0) {
+    const { name, requiredBy } = queue.shift()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const conflict = resolution.domains.find((loaded) => conflictsWith(manifest, name, loaded));
+    if (conflict) {
+      resolution.suppressed[name] = conflict;
+      continue;
+    }
+
+    resolution.domains.push(name);
+    if (requiredBy) resolution.requiredBy[name] = requiredBy;
+
+    for (const required of manifest.domains[name]?.requires ?? []) {
+      if (!seen.has(required) && manifest.domains[required] && canPullIn(required)) {
+        queue.push({ name: required, requiredBy: name });
+      }
+    }
+  }
+
+  return resolution;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Find cycles in the `requires` graph. Each cycle is returned once, as the
+ * list of domains along it with the first repeated at the end.
+ */
+export function findRequireCycles(domains: Manifest["domains"]): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+
+  const visit = (name: string, chain: string[]) => {
+    const index = chain.indexOf(name);
+    if (index !== -1) {
+      cycles.push([...chain.slice(index), name]);
+      return;
+    }
+    if (done.has(name) || !domains[name]) return;
+
+    for (const required of domains[name].requires) {
+      visit(required, [...chain, name]);
+    }
+    done.add(name);
+  };
+
+  for (const name of Object.keys(domains)) {
+    visit(name, []);
+  }
+  return cycles;
+}
@@ -0,0 +1,111 @@
+/**
+ * OpenCarly Fuzzy Keyword Matching
+ *
+ * Typo tolerance for recall keywords: a prompt word within a small edit
+ * distance of a keyword (insertions, deletions, substitutions and swapped
+ * neighbours) counts as a hit, so "secuirty" still loads "security".
+ *
+ * Prompt words are indexed once per prompt by length, and the distance
+ * computation gives up as soon as the limit is exceeded, so huge pastes
+ * stay cheap.
+ */
+
+/** Only the first 25k chars are indexed, like extractPathsFromPrompt */
+const MAX_PROMPT_CHARS = 25000;
+
+// ---------------------------------------------------------------------------
+// Edit distance
+// ---------------------------------------------------------------------------
+
+/**
+ * Optimal string alignment distance between `a` and `b`, or `max + 1`
+ * once it is certain to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// ---------------------------------------------------------------------------
+// Prompt word index
+// ---------------------------------------------------------------------------
+
+/** Unique lowercase prompt words grouped by length */
+export type PromptWordIndex = Map<number, string[]>;
+
+/**
+ * Index the unique words of a prompt by length.
+ */
+export function indexPromptWords(prompt: string): PromptWordIndex {
+  const safePrompt = prompt.length > MAX_PROMPT_CHARS ? prompt.slice(0, MAX_PROMPT_CHARS) : prompt;
+  const words = new Set(safePrompt.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+
+  const index: PromptWordIndex = new Map();
+  for (const word of words) {
+    const bucket = index.get(word.length);
+    if (bucket) bucket.push(word);
+    else index.set(word.length, [word]);
+  }
+  return index;
+}
+
+/** Keyword characters per tolerated edit */
+const CHARS_PER_EDIT = 5;
+
+/**
+ * Edit distance allowed for a keyword: one typo per five characters,
+ * capped at `maxDistance`. Keywords under ten characters get a single
+ * edit, since two edits turn many of them into other words
+ * ("severity" / "security").
+ */
+export function allowedDistance(keyword: string, maxDistance: number): number {
+  return Math.min(maxDistance, Math.floor(keyword.length / CHARS_PER_EDIT));
+}
+
+/**
+ * Find a prompt word within `maxDistance` edits of `keyword` (lowercase,
+ * single word). Returns the closest word, or null if none is close enough.
+ */
+export function findFuzzyWord(
+  keyword: string,
+  index: PromptWordIndex,
+  maxDistance: number
+): string | null {
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+
+  for (let length = keyword.length - maxDistance; length <= keyword.length + maxDistance; length++) {
+    for (const word of index.get(length) ?? []) {
+      const distance = editDistance(keyword, word, bestDistance - 1);
+      if (distance < bestDistance) {
+        best = word;
+        bestDistance = distance;
+        if (distance === 0) return best;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenCarly Git Signal
+ *
+ * Reads the repository state around the session cwd: the current branch
+ * and any merge, rebase, cherry-pick, revert or bisect in progress come
+ * straight from the .git directory; changed and staged files come from
+ * `git status`. Domains use it through their `git` triggers.
+ *
+ * Everything here is best-effort - outside a repository, or without the
+ * git binary, the parts that can't be read are simply empty.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import type { GitOperation } from "../config/schema";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GitState {
+  /** Current branch (the branch being rebased during a rebase), null when detached */
+  branch: string | null;
+
+  /** Files with staged, unstaged or untracked changes, relative to the repository root */
+  changedFiles: string[];
+
+  /** Subset of changedFiles with staged changes */
+  stagedFiles: string[];
+
+  /** Operation in progress, if any */
+  operation: GitOperation | null;
+}
+
+// ---------------------------------------------------------------------------
+// .git directory
+// ---------------------------------------------------------------------------
+
+/** `git status` is abandoned after this long on huge repositories */
+const STATUS_TIMEOUT_MS = 2000;
+
+/** Changed files beyond this many are dropped */
+const MAX_CHANGED_FILES = 500;
+
+/** Marker files/directories for operations in progress, checked in order */
+const OPERATION_MARKERS: Array<[string, GitOperation]> = [
+  ["rebase-merge", "rebase"],
+  ["rebase-apply", "rebase"],
+  ["MERGE_HEAD", "merge"],
+  ["CHERRY_PICK_HEAD", "cherry-pick"],
+  ["REVERT_HEAD", "revert"],
+  ["BISECT_LOG", "bisect"],
+];
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return (await fs.promises.readFile(filePath, "utf-8")).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the repository root and git directory for `cwd`, following
+ * `.git` files (worktrees, submodules) to the real git directory.
+ */
+async function findGitDir(cwd: string): Promise<{ root: string; gitDir: string } | null> {
+  let dir = path.resolve(cwd);
+  while (true) {
+    const candidate = path.join(dir, ".git");
+    try {
+      const stat = await fs.promises.stat(candidate);
+      if (stat.isDirectory()) return { root: dir, gitDir: candidate };
+      const pointer = (await readText(candidate))?.match(/^gitdir:\s*(.+)$/m);
+      if (pointer) return { root: dir, gitDir: path.resolve(dir, pointer[1].trim()) };
+    } catch {
+      // Not here - keep walking up
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function stripRef(ref: string): string {
+  return ref.replace(/^refs\/heads\//, "");
+}
+
+async function readBranch(gitDir: string): Promise<string | null> {
+  // During a rebase HEAD is detached; the branch being rebased is recorded separately
+  for (const marker of ["rebase-merge", "rebase-apply"]) {
+    const headName = await readText(path.join(gitDir, marker, "head-name"));
+    if (headName) return stripRef(headName);
+  }
+
+  const head = await readText(path.join(gitDir, "HEAD"));
+  const ref = head?.match(/^ref:\s*(.+)$/);
+  return ref ? stripRef(ref[1].trim()) : null;
+}
+
+async function readOperation(gitDir: string): Promise<GitOperation | null> {
+  for (const [marker, operation] of OPERATION_MARKERS) {
+    try {
+      await fs.promises.access(path.join(gitDir, marker));
+      return operation;
+    } catch {
+      // Marker absent
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// git status
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `git status --porcelain -z` in the repository root. Returns null if
+ * git is unavailable, fails or times out.
+ */
+function runGitStatus(root: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      ["status", "--porcelain=v1", "-z", "--untracked-files=normal"],
+      { cwd: root, timeout: STATUS_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+      (err, stdout) => resolve(err ? null : stdout)
+    );
+  });
+}
+
+/**
+ * Parse porcelain v1 `-z` output. Each entry is "XY path"; renames and
+ * copies are followed by the original path as a separate entry.
+ */
+export function parseGitStatus(output: string): { changed: string[]; staged: string[] } {
+  const changed: string[] = [];
+  const staged: string[] = [];
+  const entries = output.split("\0");
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    const [x] = entry;
+    const filePath = entry.slice(3);
+
+    changed.push(filePath);
+    if (x !== " " && x !== "?" && x !== "!") staged.push(filePath);
+    if (x === "R" || x === "C") i++;
+  }
+
+  return { changed: changed.slice(0, MAX_CHANGED_FILES), staged: staged.slice(0, MAX_CHANGED_FILES) };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the git state for a session cwd. Returns null outside a repository.
+ * With `includeChanges: false`, `git status` is not run.
+ */
+export async function readGitState(cwd: string, includeChanges: boolean = true): Promise<GitState | null> {
+  const repo = await findGitDir(cwd);
+  if (!repo) return null;
+
+  const [branch, operation, status] = await Promise.all([
+    readBranch(repo.gitDir),
+    readOperation(repo.gitDir),
+    includeChanges ? runGitStatus(repo.root) : Promise.resolve(null),
+  ]);
+  const { changed, staged } = status ? parseGitStatus(status) : { changed: [], staged: [] };
+
+  return { branch, changedFiles: changed, stagedFiles: staged, operation };
+}
@@ -2,7 +2,51 @@
  * Engine module exports
  */
 
-export { matchDomains, detectStarCommands, type MatchResult } from "./matcher";
+export {
+  matchDomains,
+  detectStarCommands,
+  type MatchResult,
+  type DomainScore,
+  type ScopeContext,
+  type MatchOptions,
+  type ActivityMatch,
+} from "./matcher";
+export {
+  compileKeyword,
+  validateKeyword,
+  getKeywordKind,
+  suggestKeywordPattern,
+  type CompiledKeyword,
+  type KeywordKind,
+} from "./keywords";
+export { stem, stemText } from "./stemmer";
+export { editDistance } from "./fuzzy";
+export {
+  buildSemanticIndex,
+  isSemanticEnabled,
+  usesSemantic,
+  type SemanticIndex,
+  type SemanticHit,
+} from "./semantic";
+export {
+  parseStarCommandArgs,
+  resolveCommand,
+  renderCommandRules,
+  findUnresolvedPlaceholders,
+  type StarCommandArgs,
+  type ResolvedCommand,
+} from "./commands";
+export { findNegatedPhrase } from "./negation";
+export { segmentPrompt, type PromptSegments } from "./segments";
+export {
+  detectProjectStack,
+  findDetectedDomains,
+  type ProjectStack,
+} from "./stack";
+export { readGitState, type GitState } from "./git";
+export { isForAudience, type Audience } from "./audience";
+export { collectRecentActivity, type RecentActivity } from "./activity";
+export { resolveDependencies, type DependencyResolution } from "./dependencies";
 export { loadRules, calculateBaseline, type LoadedRules } from "./loader";
 export { getBracket, type BracketResult } from "./brackets";
 export { trimMessageHistory, type TrimStats } from "./trimmer";
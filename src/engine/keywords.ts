@@ -0,0 +1,200 @@
+/**
+ * OpenCarly Keyword Patterns
+ *
+ * Compiles recall/exclude entries into regular expressions. An entry is:
+ * - `re:pattern` - a case-insensitive regular expression, or
+ *   `re:/pattern/flags` to choose the flags
+ * - `glob:pattern` - a word pattern (e.g. "glob:migrat*", "glob:write * tests"):
+ *   `*` matches any run of word characters, `?` exactly one
+ * - anything else - a literal keyword or phrase, even if it contains
+ *   `*`, `?` or slashes
+ *
+ * Word patterns and literals are case-insensitive and must sit on word
+ * boundaries. Regexes are limited in length and may not nest unbounded
+ * quantifiers, since they run on every prompt. Compiled patterns are cached
+ * by their source text.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type KeywordKind = "literal" | "wildcard" | "regex";
+
+export interface CompiledKeyword {
+  kind: KeywordKind;
+  regex: RegExp;
+}
+
+// ---------------------------------------------------------------------------
+// Compilation
+// ---------------------------------------------------------------------------
+
+const REGEX_PREFIX = "re:";
+const GLOB_PREFIX = "glob:";
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/s;
+
+/** Longest regex source accepted, so a runaway pattern cannot slow every prompt */
+export const MAX_PATTERN_LENGTH = 200;
+
+/** Flags that make RegExp.test() stateful are dropped */
+const STATEFUL_FLAGS = /[gy]/g;
+
+const BOUNDARY_PREFIX = "(?:^|\\W)";
+const BOUNDARY_SUFFIX = "(?:\\W|$)";
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Length of the quantifier at `index` and whether it is unbounded
+ * (`*`, `+`, `{n,}`), or null if there is none.
+ */
+function quantifierAt(source: string, index: number): { length: number; unbounded: boolean } | null {
+  const ch = source[index];
+  if (ch === "*" || ch === "+") return { length: 1, unbounded: true };
+  if (ch === "?") return { length: 1, unbounded: false };
+  const braces = source.slice(index).match(/^\{\d+(,\d*)?\}/);
+  if (braces) return { length: braces[0].length, unbounded: braces[1] === "," };
+  return null;
+}
+
+/**
+ * Detect groups that contain an unbounded quantifier and are themselves
+ * repeated without bound, like `(a+)+` or `(\w*\s?)*`. These backtrack
+ * exponentially on input that almost matches.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  // One entry per open group: does it contain an unbounded quantifier?
+  const groups: boolean[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i += 2;
+    } else if (ch === "[") {
+      // Skip the character class; quantifier characters inside it are literal
+      i++;
+      if (source[i] === "]") i++;
+      while (i < source.length && source[i] !== "]") i += source[i] === "\\" ? 2 : 1;
+      i++;
+    } else if (ch === "(") {
+      groups.push(false);
+      i++;
+      // Skip the group kind (?:, ?=, ?!, ?<=, ?<!, ?<name>)
+      if (source[i] === "?") {
+        const kind = source.slice(i).match(/^\?(?:<[=!]|<[^>]*>|[:=!])/);
+        i += kind ? kind[0].length : 1;
+      }
+    } else if (ch === ")") {
+      const inner = groups.pop() ?? false;
+      i++;
+      const quantifier = quantifierAt(source, i);
+      if (quantifier?.unbounded && inner) return true;
+      if (groups.length > 0 && (inner || quantifier?.unbounded)) groups[groups.length - 1] = true;
+      if (quantifier) i += quantifier.length;
+    } else {
+      const quantifier = quantifierAt(source, i);
+      if (quantifier?.unbounded && groups.length > 0) groups[groups.length - 1] = true;
+      i += quantifier?.length ?? 1;
+    }
+  }
+  return false;
+}
+
+/**
+ * Classify a recall/exclude entry without compiling it.
+ */
+export function getKeywordKind(keyword: string): KeywordKind {
+  const trimmed = keyword.trim();
+  if (trimmed.startsWith(REGEX_PREFIX)) return "regex";
+  if (trimmed.startsWith(GLOB_PREFIX)) return "wildcard";
+  return "literal";
+}
+
+/**
+ * Compile a recall/exclude entry. Throws a SyntaxError for invalid regexes
+ * and for regexes that are too long or nest unbounded quantifiers.
+ */
+export function compileKeyword(keyword: string): CompiledKeyword {
+  const trimmed = keyword.trim();
+  const kind = getKeywordKind(trimmed);
+
+  if (kind === "regex") {
+    const pattern = trimmed.slice(REGEX_PREFIX.length).trim();
+    const literal = pattern.match(REGEX_LITERAL);
+    const [source, flags] = literal ? [literal[1], literal[2]] : [pattern, "i"];
+    if (source === "") throw new SyntaxError("Empty regular expression");
+    if (source.length > MAX_PATTERN_LENGTH) {
+      throw new SyntaxError(`Regular expression is longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (hasNestedQuantifier(source)) {
+      throw new SyntaxError("Regular expression repeats a group that already contains * or + (e.g. (a+)+)");
+    }
+    return { kind, regex: new RegExp(source, flags.replace(STATEFUL_FLAGS, "")) };
+  }
+
+  const lower = (kind === "wildcard" ? trimmed.slice(GLOB_PREFIX.length).trim() : trimmed).toLowerCase();
+  if (kind === "wildcard" && lower === "") throw new SyntaxError("Empty word pattern");
+  const body =
+    kind === "wildcard"
+      ? lower
+          .replace(/\*+/g, "*")
+          .split(/([*?])/)
+          .map((part) => (part === "*" ? "\\w*" : part === "?" ? "\\w" : escapeRegex(part)))
+          .join("")
+      : escapeRegex(lower);
+  return { kind, regex: new RegExp(BOUNDARY_PREFIX + body + BOUNDARY_SUFFIX, "i") };
+}
+
+/**
+ * Validate a recall/exclude entry. Returns an error message, or null if valid.
+ */
+export function validateKeyword(keyword: string): string | null {
+  try {
+    compileKeyword(keyword);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * For a literal entry written like a pattern ("/migrat(e|ion)/i",
+ * "migrat*"), return the prefixed entry it was probably meant as, so
+ * loadConfig can point out that it is matched literally. Null otherwise.
+ */
+export function suggestKeywordPattern(keyword: string): string | null {
+  const trimmed = keyword.trim();
+  if (getKeywordKind(trimmed) !== "literal") return null;
+  if (REGEX_LITERAL.test(trimmed)) return REGEX_PREFIX + trimmed;
+  if (/\w\*|\*\w/.test(trimmed)) return GLOB_PREFIX + trimmed;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+/** Invalid entries are cached as null so they are only compiled once */
+const keywordCache = new Map<string, CompiledKeyword | null>();
+
+/**
+ * Compile a keyword, memoized. Returns null for invalid patterns, which
+ * loadConfig has already reported as warnings.
+ */
+export function getCompiledKeyword(keyword: string): CompiledKeyword | null {
+  const cached = keywordCache.get(keyword);
+  if (cached !== undefined) return cached;
+
+  let compiled: CompiledKeyword | null;
+  try {
+    compiled = compileKeyword(keyword);
+  } catch {
+    compiled = null;
+  }
+
+  keywordCache.set(keyword, compiled);
+  return compiled;
+}
@@ -5,10 +5,19 @@
  * based on match results from the matcher.
  */
 
-import * as path from "path";
-import { parseDomainFile } from "../config/manifest";
+import { parseDomainFile, getDomainFilePath } from "../config/manifest";
 import type { CarlyConfig } from "../config/manifest";
-import type { MatchResult } from "./matcher";
+import type { MatchResult, DomainScore, ActivityMatch } from "./matcher";
+import type { SemanticHit } from "./semantic";
+import { resolveDependencies } from "./dependencies";
+import { isForAudience } from "./audience";
+import {
+  composeCommand,
+  findCommand,
+  resolveCommand,
+  suggestCommands,
+  type StarCommandArgs,
+} from "./commands";
 import type { BracketResult } from "./brackets";
 import type { BracketName, DomainConfig } from "../config/schema";
 
@@ -23,9 +32,24 @@ export interface LoadedRules {
   /** Keyword-matched domain rules: { domainName: rules[] } */
   matched: Record<string, string[]>;
 
-  /** Star-command rules: { commandName: rules[] } */
+  /** Star-command rules with arguments substituted: { commandName: rules[] } */
   commands: Record<string, string[]>;
 
+  /** Loaded star-commands that are persistent session modes */
+  modes: string[];
+
+  /** Argument values each loaded star-command was applied with */
+  commandArgs: Record<string, Record<string, string>>;
+
+  /** Problems with star-command arguments: { commandName: warnings[] } */
+  commandWarnings: Record<string, string[]>;
+
+  /** Typed star-commands that don't exist but are close to one that does: { typedName: suggestedNames[] } */
+  unknownCommands: Record<string, string[]>;
+
+  /** Typed star-commands whose `agents` / `models` filters exclude this prompt */
+  unavailableCommands: string[];
+
   /** Context bracket rules for the current bracket */
   bracketRules: string[];
 
@@ -38,15 +62,45 @@ export interface LoadedRules {
   /** Bracket threshold for display */
   bracketThreshold: number;
 
+  /** Always-on domains detected from the project stack: { domainName: dependenciesAndFiles[] } */
+  detectedDomains: Record<string, string[]>;
+
   /** Keywords that triggered each matched domain */
   matchedKeywords: Record<string, string[]>;
 
+  /** Subset of matchedKeywords that only matched via typo tolerance */
+  fuzzyKeywords: Record<string, string[]>;
+
+  /** Recall scores of domains with keyword hits, including those below minScore */
+  domainScores: Record<string, DomainScore>;
+
   /** File paths that triggered each matched domain */
   matchedPaths: Record<string, string[]>;
 
+  /** Fence languages / code paths that triggered each domain */
+  matchedCode: Record<string, string[]>;
+
+  /** Branch, git operation or changed files that triggered each domain */
+  matchedGit: Record<string, string[]>;
+
+  /** Similarity hits that triggered each semantically matched domain */
+  matchedSemantic: Record<string, SemanticHit>;
+
+  /** Domains matched by recent tool inputs or assistant output */
+  matchedActivity: Record<string, ActivityMatch>;
+
   /** Domains excluded and why */
   excludedDomains: Record<string, string[]>;
 
+  /** Sticky domains loaded from an earlier match: { domainName: promptsLeft } */
+  stickyDomains: Record<string, number>;
+
+  /** Domains loaded only because another loaded domain requires them: { domainName: requiringDomain } */
+  requiredBy: Record<string, string>;
+
+  /** Matched domains dropped because they conflict with a loaded one: { domainName: conflictingDomain } */
+  suppressedDomains: Record<string, string>;
+
   /** Global exclusion keywords found */
   globalExcluded: string[];
 
@@ -60,7 +114,7 @@ export interface LoadedRules {
   commandsEnabled: boolean;
 
   /** Domains that are available but not loaded (for summary) */
-  availableDomains: Array<{ name: string; recall: string[] }>;
+  availableDomains: Array<{ name: string; recall: string[]; description?: string }>;
 
   /** Injection stats for DEVMODE display (populated by plugin entry point) */
   injectionStats: {
@@ -99,11 +153,11 @@ export interface LoadedRules {
  * Load rules from a single domain's .md file.
  */
 async function loadDomainRules(
-  _domainName: string,
+  domainName: string,
   domain: DomainConfig,
-  configPath: string
+  config: CarlyConfig
 ): Promise<string[]> {
-  const filePath = path.join(configPath, domain.file);
+  const filePath = getDomainFilePath(config, domainName, domain);
   return await parseDomainFile(filePath);
 }
 
@@ -117,14 +171,14 @@ async function loadDomainRules(
  * Returns estimated tokens per prompt.
  */
 export async function calculateBaseline(config: CarlyConfig): Promise<number> {
-  const { manifest, commands, configPath } = config;
+  const { manifest, commands } = config;
   let totalRuleText = 0;
 
   // All domain rules
   const tasks = [];
-  for (const [, domain] of Object.entries(manifest.domains)) {
+  for (const [name, domain] of Object.entries(manifest.domains)) {
     if (domain.state === "inactive") continue;
-    const filePath = path.join(configPath, domain.file);
+    const filePath = getDomainFilePath(config, name, domain);
     tasks.push(parseDomainFile(filePath));
   }
   const results = await Promise.all(tasks);
@@ -167,19 +221,34 @@ export async function loadRules(
   bracket: BracketResult,
   promptCount: number
 ): Promise<LoadedRules> {
-  const { manifest, commands, configPath } = config;
+  const { manifest, commands } = config;
 
   const loaded: LoadedRules = {
     alwaysOn: {},
     matched: {},
     commands: {},
+    modes: [],
+    commandArgs: {},
+    commandWarnings: {},
+    unknownCommands: {},
+    unavailableCommands: [],
     bracketRules: [],
     bracket: bracket.name,
     promptCount,
     bracketThreshold: bracket.threshold,
+    detectedDomains: matchResult.detected,
     matchedKeywords: matchResult.matched,
+    fuzzyKeywords: matchResult.fuzzyMatched,
+    domainScores: matchResult.scores,
     matchedPaths: matchResult.matchedPaths,
+    matchedCode: matchResult.matchedCode,
+    matchedGit: matchResult.matchedGit,
+    matchedSemantic: matchResult.matchedSemantic,
+    matchedActivity: matchResult.matchedActivity,
     excludedDomains: matchResult.excluded,
+    stickyDomains: matchResult.sticky,
+    requiredBy: {},
+    suppressedDomains: {},
     globalExcluded: matchResult.globalExcluded,
     devmode: manifest.devmode,
     contextEnabled: manifest.context.state === "active",
@@ -189,59 +258,87 @@ export async function loadRules(
     tokenSavings: null,
   };
 
-  // Load always-on domain rules
-  const injectedDomains = new Set<string>();
-  const alwaysOnTasks = [];
-
-  for (const domainName of matchResult.alwaysOn) {
-    injectedDomains.add(domainName);
-    const domain = manifest.domains[domainName];
-    if (domain) {
-      alwaysOnTasks.push(loadDomainRules(domainName, domain, configPath).then(rules => ({ domainName, rules })));
-    }
-  }
-
-  const alwaysOnResults = await Promise.all(alwaysOnTasks);
-  for (const { domainName, rules } of alwaysOnResults) {
-    if (rules.length > 0) {
+  // Higher-priority domains are loaded (and listed) first; ties keep manifest order
+  const byPriority = (a: string, b: string) =>
+    (manifest.domains[b]?.priority ?? 0) - (manifest.domains[a]?.priority ?? 0);
+
+  // Resolve requires / conflicts over everything that matched
+  const alwaysOnNames = new Set(matchResult.alwaysOn);
+  const directNames = [
+    ...new Set([
+      ...matchResult.alwaysOn,
+      ...Object.keys(matchResult.matched),
+      ...Object.keys(matchResult.matchedPaths),
+      ...Object.keys(matchResult.matchedCode),
+      ...Object.keys(matchResult.matchedGit),
+      ...Object.keys(matchResult.matchedSemantic),
+      ...Object.keys(matchResult.matchedActivity),
+      ...Object.keys(matchResult.sticky),
+    ]),
+  ].sort(byPriority);
+  const resolution = resolveDependencies(manifest, directNames, (name) =>
+    manifest.domains[name].state === "active" &&
+    !matchResult.excluded[name] &&
+    !matchResult.outOfScope.includes(name) &&
+    !matchResult.outOfAudience.includes(name)
+  );
+  loaded.requiredBy = resolution.requiredBy;
+  loaded.suppressedDomains = resolution.suppressed;
+
+  // Load always-on, matched and pulled-in domain rules
+  const domainResults = await Promise.all(
+    resolution.domains.map(async (domainName) => ({
+      domainName,
+      rules: await loadDomainRules(domainName, manifest.domains[domainName], config),
+    }))
+  );
+  for (const { domainName, rules } of domainResults) {
+    if (rules.length === 0) continue;
+    if (alwaysOnNames.has(domainName)) {
       loaded.alwaysOn[domainName] = rules;
+    } else {
+      loaded.matched[domainName] = rules;
     }
   }
 
-  // Load keyword-matched domain rules
-  const matchedTasks = [];
-  for (const domainName of Object.keys(matchResult.matched)) {
-    if (injectedDomains.has(domainName)) continue;
-    injectedDomains.add(domainName);
-    const domain = manifest.domains[domainName];
-    if (domain) {
-      matchedTasks.push(loadDomainRules(domainName, domain, configPath).then(rules => ({ domainName, rules })));
-    }
-  }
-  
-  // Load path-matched domain rules
-  for (const domainName of Object.keys(matchResult.matchedPaths)) {
-    if (injectedDomains.has(domainName)) continue;
-    injectedDomains.add(domainName);
-    const domain = manifest.domains[domainName];
-    if (domain) {
-      matchedTasks.push(loadDomainRules(domainName, domain, configPath).then(rules => ({ domainName, rules })));
-    }
-  }
-
-  const matchedResults = await Promise.all(matchedTasks);
-  for (const { domainName, rules } of matchedResults) {
-    if (rules.length > 0) {
-      loaded.matched[domainName] = rules;
+  // Load star-command rules (always-active commands first, then session modes, then typed ones)
+  const starCommands = [
+    ...new Set([...manifest.commands.active, ...matchResult.modes, ...matchResult.starCommands]),
+  ];
+  if (manifest.commands.state === "active" && starCommands.length > 0) {
+    // Resolve aliases; arguments typed with the command win over stored mode arguments
+    const invoked = new Map<string, StarCommandArgs | undefined>();
+    for (const typedName of starCommands) {
+      const cmdName = findCommand(commands, typedName);
+      if (!cmdName) {
+        // Only likely typos get a notice - other `*words` are ordinary text
+        const suggestions = matchResult.starCommands.includes(typedName)
+          ? suggestCommands(commands, typedName)
+          : [];
+        if (suggestions.length > 0) {
+          loaded.unknownCommands[typedName] = suggestions;
+        }
+        continue;
+      }
+      if (matchResult.audience && !isForAudience(commands[cmdName], matchResult.audience)) {
+        if (matchResult.starCommands.includes(typedName)) {
+          loaded.unavailableCommands.push(typedName);
+        }
+        continue;
+      }
+      const args = matchResult.starCommandArgs[typedName];
+      invoked.set(cmdName, args ?? invoked.get(cmdName));
     }
-  }
 
-  // Load star-command rules
-  if (manifest.commands.state === "active" && matchResult.starCommands.length > 0) {
-    for (const cmdName of matchResult.starCommands) {
-      const cmd = commands[cmdName];
-      if (cmd && cmd.rules.length > 0) {
-        loaded.commands[cmdName] = cmd.rules;
+    for (const [cmdName, args] of invoked) {
+      const resolved = resolveCommand(composeCommand(commands, cmdName), args);
+      if (resolved.warnings.length > 0) {
+        loaded.commandWarnings[cmdName] = resolved.warnings;
+      }
+      if (resolved.rules.length > 0) {
+        loaded.commands[cmdName] = resolved.rules;
+        loaded.commandArgs[cmdName] = resolved.values;
+        if (matchResult.modes.includes(cmdName)) loaded.modes.push(cmdName);
       }
     }
   }
@@ -254,15 +351,23 @@ export async function loadRules(
   // Collect available but not loaded domains (for summary)
   for (const [name, domain] of Object.entries(manifest.domains)) {
     if (domain.state === "inactive") continue;
-    if (domain.alwaysOn) continue;
+    if (domain.alwaysOn || matchResult.detected[name]) continue;
 
-    // Skip if already matched or excluded
+    // Skip if already matched, excluded, out of scope or out of audience
     if (matchResult.matched[name]) continue;
     if (matchResult.matchedPaths[name]) continue;
+    if (matchResult.matchedCode[name]) continue;
+    if (matchResult.matchedGit[name]) continue;
+    if (matchResult.matchedSemantic[name]) continue;
+    if (matchResult.matchedActivity[name]) continue;
+    if (matchResult.sticky[name] !== undefined) continue;
+    if (resolution.requiredBy[name] || resolution.suppressed[name]) continue;
     if (matchResult.excluded[name]) continue;
+    if (matchResult.outOfScope.includes(name)) continue;
+    if (matchResult.outOfAudience.includes(name)) continue;
 
     if (domain.recall.length > 0) {
-      loaded.availableDomains.push({ name, recall: domain.recall });
+      loaded.availableDomains.push({ name, recall: domain.recall, description: domain.description });
     }
   }
 
@@ -2,11 +2,26 @@
  * OpenCarly Domain Matcher
  *
  * Scans user prompts for domain recall keywords and star-commands.
- * Handles global and per-domain exclusions.
+ * Handles global and per-domain exclusions, directory scopes and
+ * agent/model filters.
+ * In prose-only mode, pasted code, quotes and traces are left out.
+ * With the git signal enabled, branch, operation and uncommitted changes
+ * also trigger domains.
  */
 
-import type { Manifest } from "../config/schema";
+import * as path from "path";
+import type { DomainConfig, FuzzyConfig, Manifest } from "../config/schema";
 import { minimatch } from "minimatch";
+import { getCompiledKeyword } from "./keywords";
+import { stemKeyword, stemText } from "./stemmer";
+import { allowedDistance, findFuzzyWord, indexPromptWords, type PromptWordIndex } from "./fuzzy";
+import { findNegatedPhrase } from "./negation";
+import { parseStarCommandArgs, STAR_COMMAND, type StarCommandArgs } from "./commands";
+import { segmentPrompt, type PromptSegments } from "./segments";
+import type { RecentActivity } from "./activity";
+import type { GitState } from "./git";
+import { isForAudience, type Audience } from "./audience";
+import { scoreDomain, usesSemantic, vectorizePrompt, type SemanticHit, type SemanticIndex, type TermVector } from "./semantic";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -16,10 +31,31 @@ export interface MatchResult {
   /** Domains matched via recall keywords: { domainName: matchedKeywords[] } */
   matched: Record<string, string[]>;
 
+  /** Subset of `matched` keywords that only matched a misspelled prompt word (fuzzy mode) */
+  fuzzyMatched: Record<string, string[]>;
+
+  /** Recall scores of every domain with at least one keyword hit, loaded or not */
+  scores: Record<string, DomainScore>;
+
   /** Domains matched via file paths: { domainName: matchedPaths[] } */
   matchedPaths: Record<string, string[]>;
 
-  /** Domains excluded by per-domain exclusion: { domainName: excludingKeywords[] } */
+  /** Domains matched via fenced code languages or paths inside pasted code: { domainName: signals[] } */
+  matchedCode: Record<string, string[]>;
+
+  /** Domains matched via repository state: { domainName: signals[] } (branch, operation, changed files) */
+  matchedGit: Record<string, string[]>;
+
+  /** Domains matched via semantic similarity to their rule text */
+  matchedSemantic: Record<string, SemanticHit>;
+
+  /** Domains matched only by the secondary pass over recent agent activity */
+  matchedActivity: Record<string, ActivityMatch>;
+
+  /** Sticky domains loading from an earlier match: { domainName: promptsLeft } (set by the session) */
+  sticky: Record<string, number>;
+
+  /** Domains excluded by per-domain exclusion or negated recall hits: { domainName: excludingKeywords/negatedPhrases[] } */
   excluded: Record<string, string[]>;
 
   /** Global exclusion keywords that were found (blocks all matching) */
@@ -28,14 +64,79 @@ export interface MatchResult {
   /** Star-commands detected (lowercase, without asterisk) */
   starCommands: string[];
 
-  /** Always-on domains that are active */
+  /** Arguments written after each detected star-command */
+  starCommandArgs: Record<string, StarCommandArgs>;
+
+  /** Persistent star-command modes applied to this prompt (set by the session) */
+  modes: string[];
+
+  /** Always-on domains that are active (including detected ones) */
   alwaysOn: string[];
+
+  /** Domains always on because the project stack matched their `detect` conditions */
+  detected: Record<string, string[]>;
+
+  /** Scoped domains hidden because neither cwd nor any active file is inside their scope */
+  outOfScope: string[];
+
+  /** Domains hidden because their `agents` / `models` filters exclude this prompt's agent or model */
+  outOfAudience: string[];
+
+  /** Agent and model the prompt was matched for (null when not known) */
+  audience: Audience | null;
+}
+
+export interface DomainScore {
+  /** Summed weight of the matched recall keywords */
+  score: number;
+
+  /** Score needed to load the domain */
+  minScore: number;
+}
+
+export interface ActivityMatch {
+  /** Where the keywords were found: tool inputs or the last assistant message */
+  source: "tool" | "assistant";
+
+  /** Recall keywords that matched */
+  keywords: string[];
+}
+
+export interface ScopeContext {
+  /** Absolute working directory of the session */
+  cwd: string;
+
+  /** Directory a domain's `scope` globs are relative to */
+  scopeRoot: (domainName: string) => string;
+}
+
+export interface MatchOptions {
+  /** Session location for `scope` checks (scope is not checked without it) */
+  scope?: ScopeContext;
+
+  /** Index for the semantic channel (skipped without it) */
+  semanticIndex?: SemanticIndex | null;
+
+  /** Recent agent activity for the secondary pass (skipped without it) */
+  activity?: RecentActivity | null;
+
+  /** Domains whose `detect` conditions hold for the workspace (see stack.ts) */
+  detected?: Record<string, string[]>;
+
+  /** Repository state for domain `git` triggers (skipped without it, see git.ts) */
+  git?: GitState | null;
+
+  /** Agent and model of the prompt for `agents` / `models` filters (not checked without it) */
+  audience?: Audience | null;
 }
 
 // ---------------------------------------------------------------------------
 // Star-command detection
 // ---------------------------------------------------------------------------
 
+/** Inline `code` spans - star-commands are not read from them */
+const INLINE_CODE = /`[^`\n]*`/g;
+
 /**
  * Detect star-commands in the prompt.
  * e.g. "*brief *dev explain this" -> ["brief", "dev"]
@@ -44,7 +145,7 @@ export function detectStarCommands(prompt: string): string[] {
   const commands: string[] = [];
   
   // Use matchAll to avoid global RegExp state mutation race conditions
-  const matches = prompt.matchAll(/(?:^|\s)\*([a-zA-Z]\w*)/g);
+  const matches = prompt.matchAll(STAR_COMMAND);
   for (const match of matches) {
     commands.push(match[1].toLowerCase());
   }
@@ -52,6 +153,17 @@ export function detectStarCommands(prompt: string): string[] {
   return [...new Set(commands)]; // deduplicate
 }
 
+/**
+ * Fill `starCommands` and `starCommandArgs`. A command switched off
+ * (`*brief-`) only ends its mode - it is not applied to this prompt.
+ */
+function detectStarCommandsWithArgs(prompt: string, result: MatchResult): void {
+  result.starCommandArgs = parseStarCommandArgs(prompt);
+  result.starCommands = detectStarCommands(prompt).filter(
+    (name) => result.starCommandArgs[name]?.toggle !== "off"
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Path and Glob Matching
 // ---------------------------------------------------------------------------
@@ -98,43 +210,111 @@ function extractPathsFromPrompt(prompt: string): string[] {
   return Array.from(paths);
 }
 
+/**
+ * Check whether any location (absolute paths) lies inside one of the scope
+ * directory globs. A glob matches the directory itself and everything below it.
+ */
+function isInScope(locations: string[], scopeRoot: string, scope: string[]): boolean {
+  for (const location of locations) {
+    const relative = path.relative(scopeRoot, location);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) continue;
+    const normalized = relative.split(path.sep).join("/");
+
+    for (const glob of scope) {
+      const dirGlob = glob.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+      if (dirGlob === "" || dirGlob === ".") return true;
+      if (
+        minimatch(normalized, dirGlob, { dot: true }) ||
+        minimatch(normalized, `${dirGlob}/**`, { dot: true })
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Check a domain's `git` trigger against the repository state. Returns
+ * the signals that matched ("branch release/1.2", "rebase", changed file
+ * paths), or an empty list.
+ */
+function matchGitTrigger(domain: DomainConfig, git: GitState): string[] {
+  const trigger = domain.git;
+  if (!trigger) return [];
+  const signals: string[] = [];
+
+  const branch = git.branch;
+  if (branch && trigger.branch.some((pattern) => branch === pattern || minimatch(branch, pattern))) {
+    signals.push(`branch ${branch}`);
+  }
+  if (git.operation && trigger.operations.includes(git.operation)) {
+    signals.push(git.operation);
+  }
+  if (trigger.changes && domain.paths.length > 0) {
+    const files = trigger.changes === "staged" ? git.stagedFiles : git.changedFiles;
+    signals.push(...files.filter((file) => isPathMatch(file, domain.paths)));
+  }
+
+  return signals;
+}
+
 // ---------------------------------------------------------------------------
 // Keyword matching
 // ---------------------------------------------------------------------------
 
-const regexCache = new Map<string, RegExp>();
+/**
+ * A prompt plus its lazily built stemmed form, fuzzy word index and
+ * semantic vector, shared by every domain that needs them.
+ */
+interface PromptText {
+  raw: string;
+  lower: string;
+  stemmed: string | null;
+  words: PromptWordIndex | null;
+  vector: TermVector | null;
+}
 
-function getCachedRegex(keywordLower: string): RegExp {
-  if (regexCache.has(keywordLower)) return regexCache.get(keywordLower)!;
-  
-  const escaped = keywordLower.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  const prefix = "(?:^|\\W)";
-  const suffix = "(?:\\W|$)";
-  const regex = new RegExp(prefix + escaped + suffix, "i");
-  
-  regexCache.set(keywordLower, regex);
-  return regex;
+function createPromptText(prompt: string): PromptText {
+  return { raw: prompt, lower: prompt.toLowerCase(), stemmed: null, words: null, vector: null };
 }
 
 /**
- * Check if any keywords from the list appear in the prompt (case-insensitive substring match).
+ * Check which keywords from the list appear in the prompt.
+ * Literals and wildcard patterns match case-insensitively on word boundaries;
+ * `re:` regexes use their own flags (see keywords.ts). With `stemming`,
+ * plain word keywords also match any inflection of the same stems.
  * Returns the list of matching keywords.
  */
 function findMatchingKeywords(
-  prompt: string,
-  keywords: string[]
+  prompt: PromptText,
+  keywords: string[],
+  stemming: boolean = false
 ): string[] {
-  const promptLower = prompt.toLowerCase();
   const matches: string[] = [];
 
   for (const keyword of keywords) {
     const keywordLower = keyword.toLowerCase().trim();
     if (keywordLower === "") continue;
 
-    if (!promptLower.includes(keywordLower)) continue;
+    const compiled = getCompiledKeyword(keyword);
+    if (!compiled) continue;
+
+    if (stemming && compiled.kind === "literal") {
+      const keywordStem = stemKeyword(keywordLower);
+      if (keywordStem !== null) {
+        prompt.stemmed ??= stemText(prompt.raw);
+        if (prompt.stemmed.includes(keywordStem)) {
+          matches.push(keyword);
+          continue;
+        }
+      }
+    }
+
+    // Cheap substring check skips the regex for most literal keywords
+    if (compiled.kind === "literal" && !prompt.lower.includes(keywordLower)) continue;
 
-    const regex = getCachedRegex(keywordLower);
-    if (regex.test(promptLower)) {
+    if (compiled.regex.test(compiled.kind === "regex" ? prompt.raw : prompt.lower)) {
       matches.push(keyword);
     }
   }
@@ -142,6 +322,83 @@ function findMatchingKeywords(
   return matches;
 }
 
+/**
+ * Round a score to two decimals so weights like 0.1 + 0.2 display cleanly.
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Fuzzy pass over the recall keywords that did not match exactly.
+ * Only single-word literal keywords of at least `minLength` characters
+ * take part. Returns the keywords that matched a misspelled prompt word.
+ */
+function findFuzzyKeywords(
+  prompt: PromptText,
+  keywords: string[],
+  config: FuzzyConfig
+): string[] {
+  const matches: string[] = [];
+
+  for (const keyword of keywords) {
+    const keywordLower = keyword.toLowerCase().trim();
+    if (keywordLower.length < config.minLength || !/^[a-z0-9]+$/.test(keywordLower)) continue;
+    if (getCompiledKeyword(keyword)?.kind !== "literal") continue;
+
+    const maxDistance = allowedDistance(keywordLower, config.maxDistance);
+    if (maxDistance === 0) continue;
+
+    prompt.words ??= indexPromptWords(prompt.raw);
+    if (findFuzzyWord(keywordLower, prompt.words, maxDistance) !== null) {
+      matches.push(keyword);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Sum the weights of matched recall keywords.
+ */
+function scoreKeywords(keywords: string[], weights: Record<string, number>): number {
+  return roundScore(keywords.reduce((sum, keyword) => sum + (weights[keyword] ?? 1), 0));
+}
+
+/**
+ * Secondary pass: match recall keywords of domains the prompt did not load
+ * against recent tool inputs, then against the last assistant message.
+ * Exclusions were already checked against the prompt itself.
+ */
+function matchActivity(manifest: Manifest, activity: RecentActivity, result: MatchResult): void {
+  const sources: Array<[ActivityMatch["source"], PromptText]> = [];
+  if (activity.toolInputs.length > 0) {
+    sources.push(["tool", createPromptText(activity.toolInputs.join("\n"))]);
+  }
+  if (activity.assistantText) {
+    sources.push(["assistant", createPromptText(activity.assistantText)]);
+  }
+  if (sources.length === 0) return;
+
+  const hidden = new Set([...result.outOfScope, ...result.outOfAudience]);
+  for (const [name, domain] of Object.entries(manifest.domains)) {
+    if (domain.state === "inactive" || domain.alwaysOn || domain.recall.length === 0) continue;
+    if (result.detected[name]) continue;
+    if (hidden.has(name) || result.excluded[name]) continue;
+    if (result.matched[name] || result.matchedPaths[name] || result.matchedCode[name]) continue;
+    if (result.matchedGit[name] || result.matchedSemantic[name]) continue;
+
+    const stemming = domain.stemming ?? manifest.stemming;
+    for (const [source, text] of sources) {
+      const keywords = findMatchingKeywords(text, domain.recall, stemming);
+      if (keywords.length > 0 && scoreKeywords(keywords, domain.weights) >= domain.minScore) {
+        result.matchedActivity[name] = { source, keywords };
+        break;
+      }
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Main matching function
 // ---------------------------------------------------------------------------
@@ -150,41 +407,106 @@ function findMatchingKeywords(
  * Match domains against a user prompt.
  *
  * Algorithm:
+ * 0. Hide scoped domains when neither cwd nor any active file is in scope,
+ *    and domains whose agents/models filters exclude this prompt
  * 1. Check globalExclude - if any match, skip all domain matching
- * 2. Collect always-on active domains
+ * 2. Collect always-on active domains, plus domains detected from the project stack
  * 3. For each active, non-alwaysOn domain:
- *    a. Check per-domain exclude keywords
- *    b. Check recall keywords
- * 4. Detect star-commands
+ *    a. Check per-domain exclude keywords, then (opt-in) drop negated recall
+ *       hits ("don't touch the tests") - excluding the domain if all were
+ *    b. Check paths, then fence languages / paths inside code (opt-in),
+ *       then git triggers (branch, operation, uncommitted changes)
+ *    c. Check recall keywords (then fuzzily, if enabled) - sum the weights
+ *       of the hits and load the domain when the score reaches its minScore
+ *    d. Otherwise, if semantic matching is enabled, load the domain when the
+ *       prompt's similarity to its rule text reaches the threshold
+ *    e. Finally, match recall keywords of still-unmatched domains against
+ *       recent agent activity (tool inputs, last assistant text)
+ * 4. Detect star-commands and their arguments
  */
 export function matchDomains(
   prompt: string, 
   manifest: Manifest, 
-  activeFiles: string[] = []
+  activeFiles: string[] = [],
+  options: MatchOptions = {}
 ): MatchResult {
+  const scopeContext = options.scope;
   const result: MatchResult = {
     matched: {},
+    fuzzyMatched: {},
+    scores: {},
     matchedPaths: {},
+    matchedCode: {},
+    matchedGit: {},
+    matchedSemantic: {},
+    matchedActivity: {},
+    sticky: {},
     excluded: {},
     globalExcluded: [],
     starCommands: [],
+    starCommandArgs: {},
+    modes: [],
     alwaysOn: [],
+    detected: {},
+    outOfScope: [],
+    outOfAudience: [],
+    audience: options.audience ?? null,
   };
 
+  // 0. Scoped domains are invisible outside their subtree
+  if (scopeContext) {
+    const locations = [
+      scopeContext.cwd,
+      ...activeFiles.map((file) => path.resolve(scopeContext.cwd, file)),
+    ];
+    for (const [name, domain] of Object.entries(manifest.domains)) {
+      if (domain.state === "inactive" || domain.scope.length === 0) continue;
+      if (!isInScope(locations, scopeContext.scopeRoot(name), domain.scope)) {
+        result.outOfScope.push(name);
+      }
+    }
+  }
+
+  // Domains limited to other agents or models are invisible for this prompt
+  if (options.audience) {
+    for (const [name, domain] of Object.entries(manifest.domains)) {
+      if (domain.state === "inactive" || (!domain.agents && !domain.models)) continue;
+      if (!isForAudience(domain, options.audience)) {
+        result.outOfAudience.push(name);
+      }
+    }
+  }
+  const hidden = new Set([...result.outOfScope, ...result.outOfAudience]);
+
   // Collect always-on domains first so they are never excluded by global exclude
   for (const [name, domain] of Object.entries(manifest.domains)) {
+    if (hidden.has(name)) continue;
     if (domain.state === "active" && domain.alwaysOn) {
       result.alwaysOn.push(name);
+    } else if (domain.state === "active" && options.detected?.[name]) {
+      result.alwaysOn.push(name);
+      result.detected[name] = options.detected[name];
     }
   }
 
+  const promptText = createPromptText(prompt);
+
+  // Prose-only view of the prompt, segmented on first use
+  let segments: PromptSegments | null = null;
+  let proseText: PromptText | null = null;
+  const getSegments = (): PromptSegments => (segments ??= segmentPrompt(prompt));
+  const getProseText = (): PromptText => (proseText ??= createPromptText(getSegments().prose));
+  // Star-commands are only read from prose: never from pasted code, quotes or inline code
+  const starCommandText = getSegments().prose.replace(INLINE_CODE, " ");
+
   // 1. Check global exclusions
   if (manifest.globalExclude.length > 0) {
-    const globalMatches = findMatchingKeywords(prompt, manifest.globalExclude);
+    const globalText = manifest.proseOnly ? getProseText() : promptText;
+    const globalMatches = findMatchingKeywords(globalText, manifest.globalExclude, manifest.stemming);
     if (globalMatches.length > 0) {
       result.globalExcluded = globalMatches;
       // Still detect star-commands even when globally excluded
-      result.starCommands = detectStarCommands(prompt);
+      detectStarCommandsWithArgs(starCommandText, result);
       return result;
     }
   }
@@ -192,28 +514,60 @@ export function matchDomains(
   // Extract possible paths from user prompt and combine with activeFiles
   const promptPaths = extractPathsFromPrompt(prompt);
   const allActiveFiles = [...new Set([...activeFiles, ...promptPaths])];
+  let proseActiveFiles: string[] | null = null;
+  let codeFiles: string[] | null = null;
 
   // 2-3. Process each domain
   for (const [name, domain] of Object.entries(manifest.domains)) {
-    // Skip inactive domains
+    // Skip inactive, out-of-scope and out-of-audience domains
     if (domain.state === "inactive") continue;
+    if (hidden.has(name)) continue;
+
+    // Skip always-on and detected domains as they are already collected
+    if (domain.alwaysOn || result.detected[name]) continue;
 
-    // Skip always-on domains as they are already collected
-    if (domain.alwaysOn) continue;
+    const stemming = domain.stemming ?? manifest.stemming;
+    const proseOnly = domain.proseOnly ?? manifest.proseOnly;
+    const text = proseOnly ? getProseText() : promptText;
 
     // Check per-domain exclusions
     if (domain.exclude.length > 0) {
-      const excludeMatches = findMatchingKeywords(prompt, domain.exclude);
+      const excludeMatches = findMatchingKeywords(text, domain.exclude, stemming);
       if (excludeMatches.length > 0) {
         result.excluded[name] = excludeMatches;
         continue;
       }
     }
 
+    let recallMatches =
+      domain.recall.length > 0 ? findMatchingKeywords(text, domain.recall, stemming) : [];
+
+    // Recall keywords mentioned only to rule them out don't count; if every
+    // hit was ruled out, the domain is excluded
+    const negatedKeywords = new Set<string>();
+    if (recallMatches.length > 0 && (domain.negation ?? manifest.negation)) {
+      const negatedPhrases: string[] = [];
+      for (const keyword of recallMatches) {
+        const phrase = findNegatedPhrase(text.raw, keyword, stemming);
+        if (phrase !== null) {
+          negatedKeywords.add(keyword);
+          negatedPhrases.push(phrase);
+        }
+      }
+      if (negatedKeywords.size === recallMatches.length) {
+        result.excluded[name] = [...new Set(negatedPhrases)];
+        continue;
+      }
+      recallMatches = recallMatches.filter((keyword) => !negatedKeywords.has(keyword));
+    }
+
     // Check file paths first
     if (domain.paths && domain.paths.length > 0) {
+      const files = proseOnly
+        ? (proseActiveFiles ??= [...new Set([...activeFiles, ...extractPathsFromPrompt(getSegments().prose)])])
+        : allActiveFiles;
       const pathMatches: string[] = [];
-      for (const file of allActiveFiles) {
+      for (const file of files) {
         if (isPathMatch(file, domain.paths)) {
           pathMatches.push(file);
         }
@@ -226,17 +580,73 @@ export function matchDomains(
       }
     }
 
-    // Check recall keywords
+    // Explicit code signals: fence language tags and (opt-in) paths inside code
+    if (domain.languages.length > 0 || (domain.codePaths && domain.paths.length > 0)) {
+      const { languages } = getSegments();
+      const codeMatches = domain.languages.filter((language) => languages.includes(language.toLowerCase()));
+      if (domain.codePaths) {
+        codeFiles ??= extractPathsFromPrompt(getSegments().code);
+        codeMatches.push(...codeFiles.filter((file) => isPathMatch(file, domain.paths)));
+      }
+      if (codeMatches.length > 0) {
+        result.matchedCode[name] = codeMatches;
+        continue;
+      }
+    }
+
+    // Repository state: branch, merge/rebase in progress, uncommitted changes
+    if (options.git && domain.git) {
+      const gitMatches = matchGitTrigger(domain, options.git);
+      if (gitMatches.length > 0) {
+        result.matchedGit[name] = gitMatches;
+        continue;
+      }
+    }
+
+    // Check recall keywords, weighting each hit
     if (domain.recall.length > 0) {
-      const recallMatches = findMatchingKeywords(prompt, domain.recall);
+      // Typo-tolerant second pass over the keywords that missed
+      if (domain.fuzzy ?? manifest.fuzzy.enabled) {
+        const exact = new Set([...recallMatches, ...negatedKeywords]);
+        const fuzzyMatches = findFuzzyKeywords(
+          text,
+          domain.recall.filter((keyword) => !exact.has(keyword)),
+          manifest.fuzzy
+        );
+        if (fuzzyMatches.length > 0) {
+          recallMatches.push(...fuzzyMatches);
+          result.fuzzyMatched[name] = fuzzyMatches;
+        }
+      }
+
       if (recallMatches.length > 0) {
-        result.matched[name] = recallMatches;
+        const score = scoreKeywords(recallMatches, domain.weights);
+        result.scores[name] = { score, minScore: domain.minScore };
+        if (score >= domain.minScore) {
+          result.matched[name] = recallMatches;
+          continue;
+        }
+        delete result.fuzzyMatched[name];
+      }
+    }
+
+    // Semantic channel: similarity to the domain's rule text
+    if (options.semanticIndex && usesSemantic(manifest, domain)) {
+      text.vector ??= vectorizePrompt(text.raw, options.semanticIndex);
+      const hit = scoreDomain(text.vector, options.semanticIndex, name);
+      if (hit && hit.similarity >= manifest.semantic.threshold!) {
+        result.matchedSemantic[name] = hit;
       }
     }
   }
 
-  // 4. Detect star-commands
-  result.starCommands = detectStarCommands(prompt);
+  // 3b. Secondary pass over recent agent activity
+  if (options.activity) {
+    matchActivity(manifest, options.activity, result);
+  }
+
+  // 4. Detect star-commands and their arguments
+  detectStarCommandsWithArgs(starCommandText, result);
 
   return result;
 }
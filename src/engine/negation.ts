@@ -0,0 +1,185 @@
+/**
+ * OpenCarly Negation Detection
+ *
+ * Finds recall keywords the user mentioned only to rule out, as in
+ * "don't touch the tests", "skip the tests for now" or "no security
+ * changes needed". A keyword counts as negated when a negation cue
+ * appears shortly before it in the same clause. The matcher treats such
+ * hits as exclusions for the domain.
+ *
+ * Only cues before the keyword are considered: "the tests don't pass"
+ * is a request about tests, not a refusal. A cue has to govern the
+ * keyword:
+ * - "no" (and "none", "nor", ...) sits right before the keyword or its
+ *   noun phrase ("no security changes", "no more tests"), and not after
+ *   "have" / "is" ("we have no tests yet" states a fact)
+ * - "not", "never" and contractions are followed by an action verb
+ *   ("don't touch", "never change"), so "why doesn't auth work" and
+ *   "not sure the tests pass" keep their keyword
+ * - "skip", "avoid", "ignore", ... are imperatives and reach a few words
+ */
+
+import { getCompiledKeyword } from "./keywords";
+import { stem, stemKeyword } from "./stemmer";
+
+// ---------------------------------------------------------------------------
+// Cues and clauses
+// ---------------------------------------------------------------------------
+
+/** Only the first 25k chars are checked, like extractPathsFromPrompt */
+const MAX_PROMPT_CHARS = 25000;
+
+/** Words allowed between a cue and the keyword ("don't touch the tests") */
+const MAX_CUE_GAP = 3;
+
+/** Cues that negate the noun phrase right after them: "no security changes" */
+const DETERMINER_CUES = new Set(["no", "none", "nothing", "nor", "neither"]);
+
+/** Imperative cues that reach up to MAX_CUE_GAP words: "skip the tests" */
+const IMPERATIVE_CUES = new Set([
+  "skip", "skipping", "avoid", "avoiding", "ignore", "ignoring", "except", "excluding",
+]);
+
+/** "not", "never" and contractions such as "don't", "shouldn't" (and the unpunctuated "dont") */
+const VERB_NEGATION = /^(?:not|never|\w+n['’]t|dont)$/;
+
+/** Verbs that turn "not" / "never" / a contraction into a refusal: "don't touch the tests" */
+const ACTION_VERBS = new Set([
+  "touch", "change", "modify", "edit", "use", "add", "remove", "delete", "update", "run",
+  "refactor", "rewrite", "write", "fix", "break", "bother", "worry", "need", "want", "include", "mess",
+]);
+
+/** "have no", "there are no": the sentence states an absence rather than ruling something out */
+const EXISTENTIAL_WORDS = new Set(["have", "has", "had", "got", "is", "are", "was", "were", "there's", "theres"]);
+
+/** Words that end a noun phrase, so "no idea why the tests fail" is not about tests */
+const FUNCTION_WORDS = new Set([
+  "a", "an", "the", "this", "that", "these", "those", "my", "our", "your", "its", "their",
+  "why", "how", "what", "when", "where", "which", "who", "whether", "if", "so", "and", "or", "to",
+  "i", "we", "you", "it", "they", "is", "are", "was", "were", "be",
+]);
+
+/** Words allowed between a determiner cue and the keyword ("no more tests") */
+const MAX_NOUN_PHRASE_GAP = 1;
+
+/** Prepositions end the cue's reach: "ignore errors in the auth flow" is not about auth */
+const CUE_STOP_WORDS = new Set(["in", "on", "of", "for", "from", "with", "about", "inside", "within"]);
+
+/** Cue words that are not negations in this position ("no matter") */
+const NON_NEGATING_FOLLOWERS: Record<string, string[]> = {
+  no: ["matter"],
+};
+
+/** Sentence ends, punctuation and contrastive conjunctions end a clause */
+const CLAUSE_BOUNDARY = /[.!?](?=\s|$)|[,;:()\n]|\b(?:but|however|although|though|instead|whereas)\b/gi;
+
+const WORD = /[a-z0-9]+(?:['’][a-z]+)?/gi;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(clause: string): Token[] {
+  return [...clause.matchAll(WORD)].map((match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Check whether the word at `index` is a negation cue governing the
+ * keyword that starts at `keywordIndex`.
+ */
+function governsKeyword(tokens: Token[], index: number, keywordIndex: number): boolean {
+  const word = tokens[index].word;
+  const next = tokens[index + 1]?.word;
+
+  if (VERB_NEGATION.test(word)) return next !== undefined && ACTION_VERBS.has(next);
+  if (IMPERATIVE_CUES.has(word)) return true;
+  if (!DETERMINER_CUES.has(word)) return false;
+
+  if (next && NON_NEGATING_FOLLOWERS[word]?.includes(next)) return false;
+  if (EXISTENTIAL_WORDS.has(tokens[index - 1]?.word)) return false;
+  const between = tokens.slice(index + 1, keywordIndex);
+  return between.length <= MAX_NOUN_PHRASE_GAP && between.every((token) => !FUNCTION_WORDS.has(token.word));
+}
+
+// ---------------------------------------------------------------------------
+// Keyword occurrences
+// ---------------------------------------------------------------------------
+
+/**
+ * Find where a keyword occurs in a clause, as [start, end] character
+ * offsets. With `stemming`, plain word keywords also match by stem.
+ */
+function findOccurrences(
+  clause: string,
+  tokens: Token[],
+  keyword: string,
+  stemming: boolean
+): Array<[number, number]> {
+  const compiled = getCompiledKeyword(keyword);
+  if (!compiled) return [];
+
+  const occurrences: Array<[number, number]> = [];
+  const globalRegex = new RegExp(compiled.regex.source, compiled.regex.flags + "g");
+  const text = compiled.kind === "regex" ? clause : clause.toLowerCase();
+  for (const match of text.matchAll(globalRegex)) {
+    occurrences.push([match.index!, match.index! + match[0].length]);
+  }
+
+  const keywordStem = stemming && compiled.kind === "literal" ? stemKeyword(keyword) : null;
+  if (keywordStem !== null) {
+    const stems = keywordStem.trim().split(" ");
+    const tokenStems = tokens.map((token) => stem(token.word));
+    for (let i = 0; i + stems.length <= tokens.length; i++) {
+      if (stems.every((s, j) => tokenStems[i + j] === s)) {
+        occurrences.push([tokens[i].start, tokens[i + stems.length - 1].end]);
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Check whether every mention of `keyword` in the prompt is negated.
+ * Returns the first negated phrase (e.g. "don't touch the tests"), or
+ * null if the keyword is missing or mentioned at least once without a
+ * negation cue.
+ */
+export function findNegatedPhrase(prompt: string, keyword: string, stemming: boolean = false): string | null {
+  const safePrompt = prompt.length > MAX_PROMPT_CHARS ? prompt.slice(0, MAX_PROMPT_CHARS) : prompt;
+  let phrase: string | null = null;
+
+  for (const clause of safePrompt.split(CLAUSE_BOUNDARY)) {
+    if (!clause || clause.trim() === "") continue;
+    const tokens = tokenize(clause);
+
+    for (const [start, end] of findOccurrences(clause, tokens, keyword, stemming)) {
+      const keywordIndex = tokens.findIndex((token) => token.end > start);
+      if (keywordIndex === -1) continue;
+
+      let cueIndex = -1;
+      for (let i = keywordIndex - 1; i >= Math.max(0, keywordIndex - MAX_CUE_GAP - 1); i--) {
+        if (CUE_STOP_WORDS.has(tokens[i].word)) break;
+        if (governsKeyword(tokens, i, keywordIndex)) {
+          cueIndex = i;
+          break;
+        }
+      }
+      if (cueIndex === -1) return null;
+
+      phrase ??= clause.slice(tokens[cueIndex].start, end).replace(/\W+$/, "").trim();
+    }
+  }
+
+  return phrase;
+}
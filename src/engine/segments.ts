@@ -0,0 +1,98 @@
+/**
+ * OpenCarly Prompt Segmentation
+ *
+ * Splits a prompt into prose and pasted material: fenced code blocks,
+ * `>` quotes, stack trace frames and timestamped log lines. In prose-only
+ * mode the matcher looks for recall keywords in the prose alone, so words
+ * like "token" or "build" inside a 300-line log don't load domains.
+ *
+ * Fence language tags (```python) and file paths inside code are kept as
+ * a separate signal that domains opt into via `languages` / `codePaths`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PromptSegments {
+  /** Prompt text outside code blocks, quotes and traces */
+  prose: string;
+
+  /** Everything that was cut out of the prose */
+  code: string;
+
+  /** Lowercase language tags of fenced code blocks, in order of appearance */
+  languages: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Line classification
+// ---------------------------------------------------------------------------
+
+/** Only the first 25k chars are segmented, like extractPathsFromPrompt */
+const MAX_PROMPT_CHARS = 25000;
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+
+const QUOTE_LINE = /^\s*>/;
+
+/** Stack frames (JS, Java, Python, Go, Rust) and timestamped log lines */
+const TRACE_LINES = [
+  /^\s+at\s+\S/,
+  /^\s*File ".+", line \d+/,
+  /^\s*Traceback \(most recent call last\)/,
+  /^\s*goroutine \d+ \[/,
+  /^\s*\d+:\s+0x[0-9a-f]+ - /,
+  /^\s*\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/,
+  /^\s*\[?\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\]?\s/,
+];
+
+function isTraceLine(line: string): boolean {
+  return TRACE_LINES.some((pattern) => pattern.test(line));
+}
+
+// ---------------------------------------------------------------------------
+// Segmentation
+// ---------------------------------------------------------------------------
+
+/**
+ * Segment a prompt into prose and code. An unclosed fence runs to the end
+ * of the prompt. Inline `code` spans stay in the prose - they are usually
+ * deliberate references.
+ */
+export function segmentPrompt(prompt: string): PromptSegments {
+  const safePrompt = prompt.length > MAX_PROMPT_CHARS ? prompt.slice(0, MAX_PROMPT_CHARS) : prompt;
+  const prose: string[] = [];
+  const code: string[] = [];
+  const languages: string[] = [];
+
+  let fence: string | null = null;
+  for (const line of safePrompt.split("\n")) {
+    const fenceMatch = line.match(FENCE);
+
+    if (fence !== null) {
+      // A closing fence uses the same character, at least as many times
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && !fenceMatch[2]) {
+        fence = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      const language = fenceMatch[2].toLowerCase();
+      if (language && !languages.includes(language)) languages.push(language);
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line) || isTraceLine(line)) {
+      code.push(line);
+    } else {
+      prose.push(line);
+    }
+  }
+
+  return { prose: prose.join("\n"), code: code.join("\n"), languages };
+}
@@ -0,0 +1,184 @@
+/**
+ * OpenCarly Semantic Matcher
+ *
+ * A purely local TF-IDF index over each domain's rule text, description
+ * and recall keywords. Prompts are scored by cosine similarity against
+ * every domain, so "why does login keep failing after the session expires"
+ * can reach the security rules without the word "auth".
+ *
+ * Words are lowercased, stop words dropped and the rest reduced with the
+ * built-in Porter stemmer, so no model or network access is needed.
+ */
+
+import type { CarlyConfig } from "../config/manifest";
+import type { DomainConfig, Manifest } from "../config/schema";
+import { getDomainFilePath, readDomainFile } from "../config/manifest";
+import { stem } from "./stemmer";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Sparse, L2-normalized term weight vector */
+export type TermVector = Map<string, number>;
+
+export interface SemanticIndex {
+  /** Inverse document frequency per stemmed term */
+  idf: Map<string, number>;
+
+  /** TF-IDF vector per domain name */
+  domains: Map<string, TermVector>;
+}
+
+export interface SemanticHit {
+  /** Cosine similarity between prompt and domain (0-1) */
+  similarity: number;
+
+  /** Prompt terms that contributed most, as stems */
+  terms: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Tokenization
+// ---------------------------------------------------------------------------
+
+/** Only the first 25k chars of a prompt are scored, like extractPathsFromPrompt */
+const MAX_PROMPT_CHARS = 25000;
+
+/** Terms shown in a SemanticHit */
+const MAX_HIT_TERMS = 3;
+
+const STOP_WORDS = new Set([
+  "a", "about", "after", "again", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "but", "by", "can", "could", "did", "do", "does",
+  "doing", "don", "each", "every", "for", "from", "get", "gets", "had", "has", "have", "having",
+  "how", "i", "if", "in", "into", "is", "it", "its", "just", "keep", "keeps", "let", "like",
+  "make", "me", "more", "most", "my", "never", "no", "not", "now", "of", "on", "only", "or",
+  "other", "our", "out", "over", "please", "same", "should", "so", "some", "still", "such",
+  "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "those",
+  "to", "too", "under", "up", "use", "very", "want", "was", "we", "were", "what", "when",
+  "where", "which", "while", "who", "why", "will", "with", "without", "would", "you", "your",
+]);
+
+/**
+ * Split text into stemmed, stop-word-free terms.
+ */
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z0-9]+/g) ?? [];
+  return words.filter((word) => !STOP_WORDS.has(word)).map(stem);
+}
+
+/**
+ * Build an L2-normalized TF-IDF vector. Terms without an idf are ignored.
+ */
+function toVector(terms: string[], idf: Map<string, number>): TermVector {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    if (idf.has(term)) counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+
+  const vector: TermVector = new Map();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf.get(term)!;
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+  }
+  return vector;
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a domain uses the semantic channel: enabled globally or by its own
+ * override, and a threshold is set.
+ */
+export function usesSemantic(manifest: Manifest, domain: DomainConfig): boolean {
+  return manifest.semantic.threshold !== undefined && (domain.semantic ?? manifest.semantic.enabled);
+}
+
+/**
+ * Whether any domain can use the semantic channel.
+ */
+export function isSemanticEnabled(manifest: Manifest): boolean {
+  return Object.values(manifest.domains).some((domain) => usesSemantic(manifest, domain));
+}
+
+/**
+ * Build the semantic index for every non-alwaysOn domain of a config.
+ * Domains with missing rule files are indexed by description and recall only.
+ */
+export async function buildSemanticIndex(config: CarlyConfig): Promise<SemanticIndex> {
+  const entries = Object.entries(config.manifest.domains).filter(([, domain]) => !domain.alwaysOn);
+
+  const documents = await Promise.all(
+    entries.map(async ([name, domain]) => {
+      const { rules } = await readDomainFile(getDomainFilePath(config, name, domain));
+      const text = [domain.description ?? "", ...domain.recall, ...rules].join("\n");
+      return { name, terms: tokenize(text) };
+    })
+  );
+
+  // Smoothed idf keeps terms shared by every domain slightly above zero
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  for (const [term, df] of documentFrequency) {
+    idf.set(term, Math.log((documents.length + 1) / (df + 1)) + 1);
+  }
+
+  const domains = new Map<string, TermVector>();
+  for (const { name, terms } of documents) {
+    domains.set(name, toVector(terms, idf));
+  }
+
+  return { idf, domains };
+}
+
+/**
+ * Pre-computed prompt vector, shared across domains.
+ */
+export function vectorizePrompt(prompt: string, index: SemanticIndex): TermVector {
+  const safePrompt = prompt.length > MAX_PROMPT_CHARS ? prompt.slice(0, MAX_PROMPT_CHARS) : prompt;
+  return toVector(tokenize(safePrompt), index.idf);
+}
+
+/**
+ * Score a prompt vector against one domain. Returns null for unindexed
+ * domains or when no terms are shared.
+ */
+export function scoreDomain(
+  promptVector: TermVector,
+  index: SemanticIndex,
+  domainName: string
+): SemanticHit | null {
+  const domainVector = index.domains.get(domainName);
+  if (!domainVector || promptVector.size === 0) return null;
+
+  const contributions: Array<[string, number]> = [];
+  let similarity = 0;
+  for (const [term, weight] of promptVector) {
+    const domainWeight = domainVector.get(term);
+    if (domainWeight === undefined) continue;
+    similarity += weight * domainWeight;
+    contributions.push([term, weight * domainWeight]);
+  }
+  if (contributions.length === 0) return null;
+
+  contributions.sort((a, b) => b[1] - a[1]);
+  return {
+    similarity: Math.round(similarity * 1000) / 1000,
+    terms: contributions.slice(0, MAX_HIT_TERMS).map(([term]) => term),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * OpenCarly Project Stack Detection
+ *
+ * Inspects the workspace once at startup (and on config reload) to learn
+ * what the project is built with: dependency names from package.json,
+ * pyproject.toml, requirements*.txt, go.mod and Cargo.toml, plus the
+ * files at the workspace root (Dockerfile, docker-compose.yml, ...).
+ *
+ * Domains declare `detect` conditions; a domain whose condition holds is
+ * treated as always-on for the workspace and reported as `detected`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import type { DomainConfig, Manifest } from "../config/schema";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ProjectStack {
+  /** Dependency names from all manifest files found, lowercase */
+  dependencies: string[];
+
+  /** Entry names at the workspace root */
+  files: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Manifest file parsers
+// ---------------------------------------------------------------------------
+
+/** Larger files are skipped - real dependency manifests are far smaller */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+async function readSmallFile(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile() || stat.size > MAX_FILE_BYTES) return null;
+    return await fs.promises.readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Package name from a Python requirement ("Django>=4.2" -> "django").
+ * Names are normalized as in PEP 503 (runs of `-_.` become `-`).
+ */
+function requirementName(requirement: string): string | null {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+  return match ? match[1].toLowerCase().replace(/[-_.]+/g, "-") : null;
+}
+
+function parsePackageJson(text: string): string[] {
+  try {
+    const pkg = JSON.parse(text) as Record<string, unknown>;
+    return ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"].flatMap(
+      (field) => {
+        const deps = pkg[field];
+        return deps && typeof deps === "object" ? Object.keys(deps) : [];
+      }
+    );
+  } catch {
+    return [];
+  }
+}
+
+function parseRequirementsTxt(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line !== "" && !line.startsWith("-"))
+    .map(requirementName)
+    .filter((name): name is string => name !== null);
+}
+
+/** Whether a line closes an array, ignoring brackets inside strings ("uvicorn[standard]") */
+function closesArray(line: string): boolean {
+  return line.replace(/"[^"]*"|'[^']*'/g, "").includes("]");
+}
+
+/**
+ * Dependency names from pyproject.toml or Cargo.toml, without a full TOML
+ * parser: keys of tables whose name ends in "dependencies" (Poetry, Cargo)
+ * and requirement strings in arrays assigned to a `dependencies` key or
+ * listed under `[project.optional-dependencies]` (PEP 621).
+ */
+export function parseTomlDependencies(text: string): string[] {
+  const names: string[] = [];
+  let table = "";
+  let inArray = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (line === "") continue;
+
+    if (inArray) {
+      for (const [, value] of line.matchAll(/["']([^"']+)["']/g)) {
+        const name = requirementName(value);
+        if (name) names.push(name);
+      }
+      if (closesArray(line)) inArray = false;
+      continue;
+    }
+
+    const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+    if (header) {
+      table = header[1].trim();
+      // [dependencies.serde] declares one dependency as its own table
+      const dependencyTable = table.match(/(?:^|\.)(?:dev-|build-)?dependencies\.["']?([A-Za-z0-9_.-]+?)["']?$/);
+      if (dependencyTable) names.push(dependencyTable[1].toLowerCase());
+      continue;
+    }
+
+    const assignment = line.match(/^["']?([A-Za-z0-9_.-]+)["']?\s*=\s*(.*)$/);
+    if (!assignment) continue;
+    const [, key, value] = assignment;
+
+    const dependencyTable = /(^|\.)(dev-|build-)?dependencies$/.test(table);
+    const optionalGroup = table === "project.optional-dependencies";
+    if (value.startsWith("[") && (/dependencies$/.test(key) || optionalGroup)) {
+      for (const [, item] of value.matchAll(/["']([^"']+)["']/g)) {
+        const name = requirementName(item);
+        if (name) names.push(name);
+      }
+      inArray = !closesArray(value);
+    } else if (dependencyTable && !optionalGroup) {
+      names.push(key.toLowerCase());
+    }
+  }
+
+  return names;
+}
+
+function parseGoMod(text: string): string[] {
+  const names: string[] = [];
+  let inBlock = false;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(/\/\/.*$/, "").trim();
+    if (inBlock) {
+      if (line === ")") inBlock = false;
+      else if (line) names.push(line.split(/\s+/)[0]);
+    } else if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+    } else {
+      const single = line.match(/^require\s+(\S+)/);
+      if (single) names.push(single[1]);
+    }
+  }
+
+  return names;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+const DEPENDENCY_FILES: Array<[RegExp, (text: string) => string[]]> = [
+  [/^package\.json$/, parsePackageJson],
+  [/^pyproject\.toml$/, parseTomlDependencies],
+  [/^requirements.*\.txt$/, parseRequirementsTxt],
+  [/^Cargo\.toml$/, parseTomlDependencies],
+  [/^go\.mod$/, parseGoMod],
+];
+
+/**
+ * Inspect the workspace root. Missing or unreadable files are skipped.
+ */
+export async function detectProjectStack(workspaceDir: string): Promise<ProjectStack> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(workspaceDir);
+  } catch {
+    return { dependencies: [], files: [] };
+  }
+
+  const dependencies = new Set<string>();
+  for (const file of files) {
+    const parser = DEPENDENCY_FILES.find(([pattern]) => pattern.test(file))?.[1];
+    if (!parser) continue;
+    const text = await readSmallFile(path.join(workspaceDir, file));
+    if (text === null) continue;
+    for (const name of parser(text)) dependencies.add(name.toLowerCase());
+  }
+
+  return { dependencies: [...dependencies].sort(), files: files.sort() };
+}
+
+/**
+ * Check a domain's `detect` conditions against the stack. Any matching
+ * dependency or file counts. Returns what matched, or null.
+ */
+function evaluateDetect(detect: NonNullable<DomainConfig["detect"]>, stack: ProjectStack): string[] | null {
+  const hits: string[] = [];
+
+  for (const pattern of detect.dependencies) {
+    const lower = pattern.toLowerCase();
+    const found = stack.dependencies.filter((name) => name === lower || minimatch(name, lower));
+    hits.push(...found);
+  }
+  for (const pattern of detect.files) {
+    hits.push(...stack.files.filter((file) => minimatch(file, pattern, { dot: true, nocase: true })));
+  }
+
+  return hits.length > 0 ? [...new Set(hits)] : null;
+}
+
+/**
+ * Find the domains whose `detect` conditions hold for this workspace:
+ * { domainName: matchedDependenciesAndFiles[] }.
+ */
+export function findDetectedDomains(manifest: Manifest, stack: ProjectStack): Record<string, string[]> {
+  const detected: Record<string, string[]> = {};
+  for (const [name, domain] of Object.entries(manifest.domains)) {
+    if (!domain.detect) continue;
+    const hits = evaluateDetect(domain.detect, stack);
+    if (hits) detected[name] = hits;
+  }
+  return detected;
+}
@@ -0,0 +1,176 @@
+/**
+ * OpenCarly English Stemmer
+ *
+ * Built-in implementation of the Porter stemming algorithm, used by the
+ * matcher's optional stemming mode so "test", "tests", "tested" and
+ * "testing" all reduce to the same stem. No dictionary or network needed.
+ */
+
+// ---------------------------------------------------------------------------
+// Porter algorithm
+// ---------------------------------------------------------------------------
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ["ational", "ate"],
+  ["tional", "tion"],
+  ["enci", "ence"],
+  ["anci", "ance"],
+  ["izer", "ize"],
+  ["bli", "ble"],
+  ["alli", "al"],
+  ["entli", "ent"],
+  ["eli", "e"],
+  ["ousli", "ous"],
+  ["ization", "ize"],
+  ["ation", "ate"],
+  ["ator", "ate"],
+  ["alism", "al"],
+  ["iveness", "ive"],
+  ["fulness", "ful"],
+  ["ousness", "ous"],
+  ["aliti", "al"],
+  ["iviti", "ive"],
+  ["biliti", "ble"],
+  ["logi", "log"],
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ["icate", "ic"],
+  ["ative", ""],
+  ["alize", "al"],
+  ["iciti", "ic"],
+  ["ical", "ic"],
+  ["ful", ""],
+  ["ness", ""],
+];
+
+const STEP4_SUFFIXES = [
+  "al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment",
+  "ent", "ou", "ism", "ate", "iti", "ous", "ive", "ize",
+];
+
+// Regexes over the consonant/vowel structure of a word (Porter's [C](VC)^m[V])
+const C = "[^aeiou]";
+const V = "[aeiouy]";
+const CS = C + "[^aeiouy]*";
+const VS = V + "[aeiou]*";
+const MEASURE_GT_0 = new RegExp("^(" + CS + ")?" + VS + CS);
+const MEASURE_EQ_1 = new RegExp("^(" + CS + ")?" + VS + CS + "(" + VS + ")?$");
+const MEASURE_GT_1 = new RegExp("^(" + CS + ")?" + VS + CS + VS + CS);
+const HAS_VOWEL = new RegExp("^(" + CS + ")?" + V);
+const ENDS_CVC = new RegExp("^" + CS + V + "[^aeiouwxy]$");
+
+/**
+ * Reduce an English word to its Porter stem. Expects a lowercase word;
+ * words shorter than three letters are returned unchanged.
+ */
+export function stem(word: string): string {
+  if (word.length < 3) return word;
+
+  let w = word;
+  const startsWithY = w[0] === "y";
+  if (startsWithY) w = "Y" + w.slice(1);
+
+  // Step 1a: plurals
+  if (/(ss|i)es$/.test(w)) w = w.slice(0, -2);
+  else if (/([^s])s$/.test(w)) w = w.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  let match: RegExpMatchArray | null;
+  if ((match = w.match(/^(.+?)eed$/))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = w.match(/^(.+?)(ed|ing)$/))) {
+    const base = match[1];
+    if (HAS_VOWEL.test(base)) {
+      w = base;
+      if (/(at|bl|iz)$/.test(w)) w += "e";
+      else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+      else if (ENDS_CVC.test(w)) w += "e";
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = w.match(/^(.+?)y$/)) && HAS_VOWEL.test(match[1])) {
+    w = match[1] + "i";
+  }
+
+  // Step 2: double suffixes
+  for (const [suffix, replacement] of STEP2_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (MEASURE_GT_0.test(base)) w = base + replacement;
+      break;
+    }
+  }
+
+  // Step 3: -ic-, -full, -ness etc.
+  for (const [suffix, replacement] of STEP3_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (MEASURE_GT_0.test(base)) w = base + replacement;
+      break;
+    }
+  }
+
+  // Step 4: strip remaining suffixes on longer stems
+  const step4 = STEP4_SUFFIXES.filter((suffix) => w.endsWith(suffix)).sort((a, b) => b.length - a.length)[0];
+  if (step4) {
+    const base = w.slice(0, -step4.length);
+    if (MEASURE_GT_1.test(base)) w = base;
+  } else if ((match = w.match(/^(.+?)(s|t)(ion)$/))) {
+    const base = match[1] + match[2];
+    if (MEASURE_GT_1.test(base)) w = base;
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = w.match(/^(.+?)e$/))) {
+    const base = match[1];
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) {
+      w = base;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) w = w.slice(0, -1);
+
+  return startsWithY ? "y" + w.slice(1) : w;
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+/** Keywords made only of words (letters/digits, spaces, hyphens) can be stemmed */
+const STEMMABLE_KEYWORD = /^[a-z0-9]+(?:[\s-]+[a-z0-9]+)*$/i;
+
+const stemCache = new Map<string, string>();
+
+function stemCached(word: string): string {
+  let result = stemCache.get(word);
+  if (result === undefined) {
+    result = stem(word);
+    // Bounded so a long session of unique words can't grow it forever
+    if (stemCache.size > 10000) stemCache.clear();
+    stemCache.set(word, result);
+  }
+  return result;
+}
+
+/**
+ * Stem every word of a text and join the stems with single spaces,
+ * padded so whole-phrase lookups can use ` stem `. Non-word characters
+ * act as separators.
+ */
+export function stemText(text: string): string {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return ` ${words.map(stemCached).join(" ")} `;
+}
+
+/**
+ * Stem a keyword or phrase for lookup in stemText() output.
+ * Returns null for keywords that contain symbols (e.g. "c++", "API/v2"),
+ * which are only matched literally.
+ */
+export function stemKeyword(keyword: string): string | null {
+  const trimmed = keyword.trim();
+  if (!STEMMABLE_KEYWORD.test(trimmed)) return null;
+  return stemText(trimmed);
+}
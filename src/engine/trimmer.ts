@@ -46,7 +46,7 @@ interface ToolStateOther {
 
 type ToolState = ToolStateCompleted | ToolStateOther;
 
-interface ToolPart {
+export interface ToolPart {
   type: "tool";
   tool: string;
   callID: string;
@@ -54,15 +54,15 @@ interface ToolPart {
   [key: string]: unknown;
 }
 
-interface TextPart {
+export interface TextPart {
   type: "text";
   text: string;
   [key: string]: unknown;
 }
 
-type AnyPart = ToolPart | TextPart | { type: string; [key: string]: unknown };
+export type AnyPart = ToolPart | TextPart | { type: string; [key: string]: unknown };
 
-interface TransformMessage {
+export interface TransformMessage {
   info: {
     role: "user" | "assistant";
     time: { created: number };
@@ -19,6 +19,10 @@ function domainLabel(name: string): string {
   return name.toUpperCase();
 }
 
+function formatScore(score: { score: number; minScore: number }): string {
+  return `${score.score}/${score.minScore}`;
+}
+
 // ---------------------------------------------------------------------------
 // Main formatter
 // ---------------------------------------------------------------------------
@@ -59,15 +63,41 @@ export function formatRules(loaded: LoadedRules): string {
 
   // 3. Active star-commands
   const commandNames = Object.keys(loaded.commands);
-  if (commandNames.length > 0) {
+  const warnedCommands = Object.keys(loaded.commandWarnings);
+  const unknownCommands = Object.entries(loaded.unknownCommands);
+  const unavailableCommands = loaded.unavailableCommands;
+  if (
+    commandNames.length > 0 ||
+    warnedCommands.length > 0 ||
+    unknownCommands.length > 0 ||
+    unavailableCommands.length > 0
+  ) {
     const cmdSections: string[] = [];
     cmdSections.push("--- ACTIVE COMMANDS ---");
     for (const cmdName of commandNames) {
       const rules = loaded.commands[cmdName];
+      const argStr = Object.entries(loaded.commandArgs[cmdName] || {})
+        .map(([name, value]) => ` ${name}=${value}`)
+        .join("");
+      const modeStr = loaded.modes.includes(cmdName) ? " (mode)" : "";
       cmdSections.push(
-        `[*${cmdName}]:\n${formatRuleList(rules)}`
+        `[*${cmdName}${argStr}]${modeStr}:\n${formatRuleList(rules)}`
       );
     }
+    if (loaded.modes.length > 0) {
+      const modeList = loaded.modes.map((m) => `*${m}`).join(", ");
+      cmdSections.push(`Persistent modes: ${modeList} (turn off with *name-)`);
+    }
+    for (const cmdName of warnedCommands) {
+      cmdSections.push(`[*${cmdName}] arguments: ${loaded.commandWarnings[cmdName].join("; ")}`);
+    }
+    for (const [typedName, suggestions] of unknownCommands) {
+      const hint = `did you mean ${suggestions.map((s) => `*${s}`).join(", ")}?`;
+      cmdSections.push(`[*${typedName}] unknown star-command - ${hint} Tell the user.`);
+    }
+    for (const typedName of unavailableCommands) {
+      cmdSections.push(`[*${typedName}] not available for this agent or model - Tell the user.`);
+    }
     cmdSections.push("--- END COMMANDS ---");
     sections.push(cmdSections.join("\n"));
   }
@@ -80,6 +110,15 @@ export function formatRules(loaded: LoadedRules): string {
     const savingsInfo = loaded.tokenSavings
       ? `\nToken Savings: ~${loaded.tokenSavings.totalSaved.toLocaleString()} tokens saved this session (selection: ~${loaded.tokenSavings.skippedBySelection.toLocaleString()}, trimming: ~${loaded.tokenSavings.trimmedFromHistory.toLocaleString()})`
       : "";
+    const scoreEntries = Object.entries(loaded.domainScores);
+    const scoresInfo = scoreEntries.length > 0
+      ? `\nDomain Scores: ${scoreEntries
+          .map(([name, score]) => {
+            const status = score.score >= score.minScore ? "loaded" : "below threshold";
+            return `${domainLabel(name)} ${formatScore(score)} (${status})`;
+          })
+          .join(", ")}`
+      : "";
     sections.push(
       `DEVMODE: on
 You MUST append the following debug block to EVERY response:
@@ -89,7 +128,7 @@ Domains Loaded: [list all loaded domains]
 Rules Applied: [specific rule numbers from each domain]
 Star-Commands: [any active star-commands]
 Bracket: [current context bracket]
-Matched Keywords: [keywords that triggered domains]${statsInfo}${savingsInfo}`
+Matched Keywords: [keywords that triggered domains]${scoresInfo}${statsInfo}${savingsInfo}`
     );
   } else {
     sections.push(
@@ -101,22 +140,47 @@ Matched Keywords: [keywords that triggered domains]${statsInfo}${savingsInfo}`
   const summaryLines: string[] = [];
 
   for (const [name, rules] of Object.entries(loaded.alwaysOn)) {
-    summaryLines.push(`  [${domainLabel(name)}] always_on (${rules.length} rules)`);
+    const detected = loaded.detectedDomains[name];
+    if (detected) {
+      const hitStr = detected.map((d) => `"${d}"`).join(", ");
+      summaryLines.push(`  [${domainLabel(name)}] detected: ${hitStr} (${rules.length} rules)`);
+    } else {
+      summaryLines.push(`  [${domainLabel(name)}] always_on (${rules.length} rules)`);
+    }
   }
   for (const [name, rules] of Object.entries(loaded.matched)) {
+    const quote = (values: string[]) => values.map((v) => `"${v}"`).join(", ");
+    const fuzzy = new Set(loaded.fuzzyKeywords[name] || []);
+    const keywords = (loaded.matchedKeywords[name] || []).filter((k) => !fuzzy.has(k));
     const paths = loaded.matchedPaths[name] || [];
-    if (paths.length > 0) {
-      const pathStr = paths.map((p) => `"${p}"`).join(", ");
-      summaryLines.push(
-        `  [${domainLabel(name)}] matched path: ${pathStr} (${rules.length} rules)`
-      );
-    } else {
-      const keywords = loaded.matchedKeywords[name] || [];
-      const kwStr = keywords.map((k) => `"${k}"`).join(", ");
-      summaryLines.push(
-        `  [${domainLabel(name)}] matched: ${kwStr} (${rules.length} rules)`
-      );
+    const codeSignals = loaded.matchedCode[name] || [];
+    const gitSignals = loaded.matchedGit[name] || [];
+    const activity = loaded.matchedActivity[name];
+    const semantic = loaded.matchedSemantic[name];
+    const requiredBy = loaded.requiredBy[name];
+    const promptsLeft = loaded.stickyDomains[name];
+
+    // Every source that loaded the domain is listed, so none hides another
+    const matchParts: string[] = [];
+    if (keywords.length > 0) matchParts.push(`matched: ${quote(keywords)}`);
+    if (fuzzy.size > 0) matchParts.push(`matched (fuzzy): ${quote([...fuzzy])}`);
+    if (paths.length > 0) matchParts.push(`matched path: ${quote(paths)}`);
+    if (codeSignals.length > 0) matchParts.push(`matched (code): ${quote(codeSignals)}`);
+    if (gitSignals.length > 0) matchParts.push(`matched (git): ${quote(gitSignals)}`);
+    if (activity) matchParts.push(`matched (${activity.source}): ${quote(activity.keywords)}`);
+    if (semantic) matchParts.push(`matched (semantic ${semantic.similarity}): ${quote(semantic.terms)}`);
+    if (requiredBy) matchParts.push(`required by: ${domainLabel(requiredBy)}`);
+    if (promptsLeft !== undefined) {
+      matchParts.push(`sticky (${promptsLeft} prompt${promptsLeft === 1 ? "" : "s"} left)`);
     }
+
+    summaryLines.push(
+      `  [${domainLabel(name)}] ${matchParts.join("; ")} (${rules.length} rules)`
+    );
+  }
+
+  for (const [name, conflict] of Object.entries(loaded.suppressedDomains)) {
+    summaryLines.push(`  [${domainLabel(name)}] suppressed: conflicts with ${domainLabel(conflict)}`);
   }
 
   if (summaryLines.length > 0) {
@@ -155,7 +219,13 @@ Matched Keywords: [keywords that triggered domains]${statsInfo}${savingsInfo}`
   // 9. Available (not loaded) domains
   if (loaded.availableDomains.length > 0) {
     const available = loaded.availableDomains
-      .map((d) => `  ${domainLabel(d.name)} (recall: ${d.recall.join(", ")})`)
+      .map((d) => {
+        const description = d.description ? ` - ${d.description}` : "";
+        const score = loaded.devmode && loaded.domainScores[d.name]
+          ? ` [score ${formatScore(loaded.domainScores[d.name])}]`
+          : "";
+        return `  ${domainLabel(d.name)}${description} (recall: ${d.recall.join(", ")})${score}`;
+      })
       .join("\n");
     sections.push(`AVAILABLE (not loaded):\n${available}`);
   }
@@ -7,24 +7,35 @@
  * Hook flow per user message:
  * 1. chat.message -> scan prompt for keywords + star-commands, update session
  * 2. experimental.chat.system.transform -> load rules, format, inject into system prompt
- * 3. experimental.chat.messages.transform -> smart trim stale tool outputs + carly-rules
+ * 3. experimental.chat.messages.transform -> smart trim stale tool outputs + carly-rules,
+ *    collect recent tool inputs for the next prompt's activity match
+ *
+ * Config files are watched and hot-reloaded; session state survives reloads.
  */
 
 import type { Plugin } from "@opencode-ai/plugin";
 import { tool } from "@opencode-ai/plugin";
 import { discoverConfig } from "./config/discovery";
-import { loadConfig, type CarlyConfig } from "./config/manifest";
+import { loadConfig, reloadConfig, getDomainScopeRoot, type CarlyConfig } from "./config/manifest";
+import { watchConfig } from "./config/watcher";
 import type { SessionConfig, TokenStats } from "./config/schema";
 import { matchDomains, type MatchResult } from "./engine/matcher";
 import { loadRules, calculateBaseline } from "./engine/loader";
 import { getBracket } from "./engine/brackets";
 import { trimMessageHistory } from "./engine/trimmer";
+import { collectRecentActivity, type RecentActivity } from "./engine/activity";
+import { buildSemanticIndex, isSemanticEnabled, type SemanticIndex } from "./engine/semantic";
+import { detectProjectStack, findDetectedDomains } from "./engine/stack";
+import { readGitState } from "./engine/git";
 import { formatRules } from "./formatter/formatter";
+import { lintConfig, formatLintReport } from "./lint/linter";
 import {
   getOrCreateSession,
   updateSessionActivity,
   saveSession,
   applySessionOverrides,
+  updateStickyDomains,
+  updateModes,
   cleanStaleSessions,
   loadCumulativeStats,
   updateCumulativeStats,
@@ -43,8 +54,14 @@ interface PluginState {
   lastMatch: Map<string, MatchResult>;
   /** Prompt text from the latest chat.message, keyed by sessionID */
   lastPrompt: Map<string, string>;
+  /** Recent tool inputs / assistant text from messages.transform and session.idle, keyed by sessionID */
+  recentActivity: Map<string, RecentActivity>;
   /** Baseline: estimated tokens if all rules loaded every prompt */
   baselineTokensPerPrompt: number;
+  /** TF-IDF index over domain rule text (null when semantic matching is off) */
+  semanticIndex: SemanticIndex | null;
+  /** Domains whose `detect` conditions hold for the workspace */
+  detectedDomains: Record<string, string[]>;
   /** Cumulative stats from all sessions (loaded from stats.json) */
   cumulativeStats: CumulativeStats;
   /** Track which message trims have already been counted for stats */
@@ -245,15 +262,21 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
     return {};
   }
 
-  await log("info", `Config found at ${discovery.configPath} (${discovery.scope})`, {
+  const layerSummary = discovery.layers
+    .map((layer) => `${layer.configPath} (${layer.scope})`)
+    .join(", ");
+  await log("info", `Config found at ${layerSummary}`, {
     configPath: discovery.configPath,
-    scope: discovery.scope,
+    layers: discovery.layers,
   });
 
-  // Load config
+  // Older manifests are upgraded in memory; opt in to rewriting them on disk
+  const loadOptions = { writeMigrations: process.env.OPENCARLY_WRITE_MIGRATIONS === "1" };
+
+  // Load config (all layers merged, innermost wins)
   let config: CarlyConfig;
   try {
-    config = await loadConfig(discovery.configPath);
+    config = await loadConfig(discovery.layers, loadOptions);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     await log("error", `Config loading failed: ${message}`, {
@@ -268,21 +291,42 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
     await log("warn", warning, { configPath: discovery.configPath });
   }
 
+  // Profile selected for every session unless a session overrides it
+  const defaultProfile = process.env.OPENCARLY_PROFILE || null;
+  if (defaultProfile && !config.manifest.profiles[defaultProfile]) {
+    await log("warn", `Profile "${defaultProfile}" from OPENCARLY_PROFILE is not defined in the manifest`, {
+      profiles: Object.keys(config.manifest.profiles),
+    });
+  }
+
   // Calculate baseline (all rules loaded every prompt)
   const baselineTokensPerPrompt = await calculateBaseline(config);
 
+  // Index domain rule text for the semantic channel
+  const semanticIndex = isSemanticEnabled(config.manifest) ? await buildSemanticIndex(config) : null;
+
+  // Inspect the workspace for domains with `detect` conditions
+  const projectStack = await detectProjectStack(directory);
+  const detectedDomains = findDetectedDomains(config.manifest, projectStack);
+
   // Log startup summary
   const domainNames = Object.keys(config.manifest.domains);
   const commandNames = Object.keys(config.commands);
+  const domainSources = Object.fromEntries(
+    Object.entries(config.domainSources).map(([name, layer]) => [name, layer.scope])
+  );
   await log("info", "OpenCarly initialized", {
     domains: domainNames,
+    domainSources,
     domainCount: domainNames.length,
     commands: commandNames,
     commandCount: commandNames.length,
     devmode: config.manifest.devmode,
+    profile: defaultProfile,
     contextBrackets: config.manifest.context.state,
     commandsSystem: config.manifest.commands.state,
     baselineTokensPerPrompt,
+    detectedDomains,
   });
 
   // Clean stale sessions on startup FIRST
@@ -303,11 +347,98 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
     sessions: new Map(),
     lastMatch: new Map(),
     lastPrompt: new Map(),
+    recentActivity: new Map(),
     baselineTokensPerPrompt,
+    semanticIndex,
+    detectedDomains,
     cumulativeStats,
     sessionTrimState: new Map(),
   };
 
+  // Remember what the agent did for the next prompt's activity match
+  const rememberActivity = (sessionID: string, messages: Parameters<typeof collectRecentActivity>[0]) => {
+    state.recentActivity.delete(sessionID);
+    state.recentActivity.set(sessionID, collectRecentActivity(messages, state.config.manifest.activity));
+    if (state.recentActivity.size > 50) {
+      const oldestKey = state.recentActivity.keys().next().value;
+      if (oldestKey) state.recentActivity.delete(oldestKey);
+    }
+  };
+
+  // -------------------------------------------------------------------
+  // Hot reload: re-read config when any file under .opencarly/ changes
+  // -------------------------------------------------------------------
+
+  let reloadChain: Promise<void> = Promise.resolve();
+
+  const reload = async (changedFiles: string[]) => {
+    let nextConfig: CarlyConfig;
+    try {
+      nextConfig = await reloadConfig(discovery.layers, loadOptions);
+    } catch (err) {
+      // Keep serving the last good config until the files are fixed
+      const message = err instanceof Error ? err.message : String(err);
+      await log("error", `Config reload failed, keeping previous config: ${message}`, {
+        configPath: discovery.configPath,
+        changedFiles,
+        error: message,
+      });
+      return;
+    }
+    if (nextConfig.failedLayers.length > 0) {
+      // A layer was rejected: applying the rest would silently drop its domains
+      for (const warning of nextConfig.warnings) {
+        await log("warn", warning, { configPath: discovery.configPath });
+      }
+      await log("error", "Config reload failed, keeping previous config until the files are fixed", {
+        configPath: discovery.configPath,
+        changedFiles,
+        failedLayers: nextConfig.failedLayers.map((layer) => layer.configPath),
+      });
+      return;
+    }
+
+    const nextBaseline = await calculateBaseline(nextConfig);
+    const nextSemanticIndex = isSemanticEnabled(nextConfig.manifest)
+      ? await buildSemanticIndex(nextConfig)
+      : null;
+    const nextStack = await detectProjectStack(directory);
+    state.config = nextConfig;
+    state.semanticIndex = nextSemanticIndex;
+    state.detectedDomains = findDetectedDomains(nextConfig.manifest, nextStack);
+
+    // "extends" may have added or removed packs - follow them
+    const nextLayers = nextConfig.layers.map((layer) => layer.configPath).join("\n");
+    if (nextLayers !== watchedLayers) {
+      watcher.close();
+      watcher = watchConfig(nextConfig.layers, onConfigChange);
+      watchedLayers = nextLayers;
+    }
+    state.baselineTokensPerPrompt = nextBaseline;
+    for (const session of state.sessions.values()) {
+      session.tokenStats.baselineTokensPerPrompt = nextBaseline;
+    }
+
+    for (const warning of nextConfig.warnings) {
+      await log("warn", warning, { configPath: discovery.configPath });
+    }
+    await log("info", "Config reloaded", {
+      changedFiles,
+      domainCount: Object.keys(nextConfig.manifest.domains).length,
+      commandCount: Object.keys(nextConfig.commands).length,
+      baselineTokensPerPrompt: nextBaseline,
+    });
+  };
+
+  const onConfigChange = (changedFiles: string[]) => {
+    // Serialize reloads so a slow reload can't overwrite a newer one
+    reloadChain = reloadChain.then(() => reload(changedFiles)).catch(() => {});
+  };
+
+  // Watch the merged layers (including inherited packs from "extends")
+  let watchedLayers = config.layers.map((layer) => layer.configPath).join("\n");
+  let watcher = watchConfig(config.layers, onConfigChange);
+
   return {
     // -----------------------------------------------------------------
     // Event hook: track session lifecycle and intercept commands
@@ -320,13 +451,26 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
               // ignore
             }
           }
+          // messages.transform never sees the final reply of a turn, so
+          // re-read the history once the agent is done
+          if (event.type === "session.idle" && state.config.manifest.activity.assistantText) {
+            const { sessionID } = event.properties;
+            try {
+              const response = await client.session.messages({ path: { id: sessionID } });
+              if (response.data) {
+                rememberActivity(sessionID, response.data as Parameters<typeof collectRecentActivity>[0]);
+              }
+            } catch {
+              // Keep the activity collected by messages.transform
+            }
+          }
         },
     
     // -----------------------------------------------------------------
     // chat.message: scan prompt, detect keywords + star-commands
     // -----------------------------------------------------------------
     "chat.message": async (input, output) => {
-      const { sessionID, model } = input;
+      const { sessionID, model, agent } = input;
 
       const promptParts = (output.parts as Array<{ type: string; [key: string]: unknown }>) || [];
       const promptText = extractPromptText(promptParts);
@@ -369,11 +513,37 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
       // Apply session overrides
       const effectiveManifest = applySessionOverrides(
         state.config.manifest,
-        currentSession
+        currentSession,
+        defaultProfile
       );
 
+      // Read repository state only when some domain has a git trigger
+      const gitEnabled =
+        effectiveManifest.git.enabled &&
+        Object.values(effectiveManifest.domains).some((domain) => domain.git);
+      const gitState = gitEnabled
+        ? await readGitState(currentSession.cwd, effectiveManifest.git.changes)
+        : null;
+
       // Run domain matcher
-      const matchResult = matchDomains(promptText, effectiveManifest, currentSession.activeFiles);
+      const matchConfig = state.config;
+      const matchResult = matchDomains(promptText, effectiveManifest, currentSession.activeFiles, {
+        scope: {
+          cwd: currentSession.cwd,
+          scopeRoot: (domainName) => getDomainScopeRoot(matchConfig, domainName),
+        },
+        semanticIndex: state.semanticIndex,
+        activity: state.recentActivity.get(sessionID),
+        detected: state.detectedDomains,
+        git: gitState,
+        audience: { agent: agent ?? null, model: model ?? null },
+      });
+
+      // Keep recently matched sticky domains loaded
+      updateStickyDomains(currentSession, matchResult, effectiveManifest);
+
+      // Apply *name+ / *name- toggles and keep persistent modes on
+      updateModes(currentSession, matchResult, state.config.commands);
 
       // Cache for system.transform hook
       state.lastMatch.set(sessionID, matchResult);
@@ -394,10 +564,21 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
         sessionID,
         promptCount: currentSession.promptCount,
         alwaysOn: matchResult.alwaysOn,
+        detected: matchResult.detected,
         matched: Object.keys(matchResult.matched),
+        fuzzyMatched: matchResult.fuzzyMatched,
+        matchedCode: matchResult.matchedCode,
+        matchedGit: matchResult.matchedGit,
+        matchedSemantic: matchResult.matchedSemantic,
+        matchedActivity: matchResult.matchedActivity,
+        sticky: matchResult.sticky,
         excluded: Object.keys(matchResult.excluded),
+        outOfScope: matchResult.outOfScope,
+        outOfAudience: matchResult.outOfAudience,
         globalExcluded: matchResult.globalExcluded,
         starCommands: matchResult.starCommands,
+        starCommandArgs: matchResult.starCommandArgs,
+        modes: matchResult.modes,
       });
 
       // Persist session
@@ -432,7 +613,7 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
 
       // Apply session overrides
       const effectiveManifest = session
-        ? applySessionOverrides(state.config.manifest, session)
+        ? applySessionOverrides(state.config.manifest, session, defaultProfile)
         : state.config.manifest;
 
       // Determine context bracket
@@ -545,6 +726,8 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
           }
         }
         countedTrims = state.sessionTrimState.get(sessionID);
+
+        rememberActivity(sessionID, output.messages as Parameters<typeof collectRecentActivity>[0]);
       }
 
       const trimResult = trimMessageHistory(
@@ -616,6 +799,14 @@ export const OpenCarly: Plugin = async ({ directory, client }) => {
           return generateStatsReport(discovery.configPath, sessionID, activeModel);
         },
       }),
+      lint: tool({
+        description: "Check the OpenCarly config for overlapping, dead and unreachable domains",
+        args: {},
+        execute: async (_args: Record<string, never>, context: { directory: string }): Promise<string> => {
+          const report = await lintConfig(state.config, context.directory || directory);
+          return formatLintReport(report);
+        },
+      }),
       clear_stats: tool({
         description: "Clear all OpenCarly token savings statistics",
         args: {},
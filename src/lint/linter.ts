@@ -0,0 +1,378 @@
+/**
+ * OpenCarly Config Linter
+ *
+ * Static checks over a loaded config that catch problems loadConfig can't:
+ * - Recall keywords shared by several domains (overlap)
+ * - Recall keywords that are also excluded (per-domain or globally)
+ * - Domains with no way to load (no recall, no paths, not alwaysOn, no semantic matching,
+ *   not required by another domain, or a
+ *   minScore no combination of recall weights can reach)
+ * - Weights for keywords that are not in the recall list
+ * - Empty domain rule files and star-commands without rules
+ * - Star-command placeholders without a declared parameter
+ * - Star-command includes of unknown commands, and aliases that clash with
+ *   another command's name or alias
+ * - `paths` globs that match nothing in the workspace
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { CarlyConfig } from "../config/manifest";
+import { getDomainFilePath, parseDomainFile } from "../config/manifest";
+import { isPathMatch } from "../engine/matcher";
+import { composeCommand, findCommand, findUnresolvedPlaceholders } from "../engine/commands";
+import { usesSemantic } from "../engine/semantic";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LintSeverity = "warning" | "info";
+
+export interface LintIssue {
+  severity: LintSeverity;
+
+  /** Stable identifier for the check that produced this issue */
+  code:
+    | "overlapping-recall"
+    | "recall-excluded"
+    | "recall-globally-excluded"
+    | "unreachable-domain"
+    | "unused-weight"
+    | "empty-domain"
+    | "empty-command"
+    | "unknown-placeholder"
+    | "unknown-include"
+    | "alias-conflict"
+    | "inert-git-trigger"
+    | "dead-path-glob";
+
+  /** Domain or star-command the issue belongs to */
+  target: string;
+
+  message: string;
+}
+
+export interface LintReport {
+  issues: LintIssue[];
+  domainsChecked: number;
+  commandsChecked: number;
+  /** Workspace files scanned for path globs (capped at MAX_WORKSPACE_FILES) */
+  workspaceFiles: number;
+}
+
+// ---------------------------------------------------------------------------
+// Workspace scan
+// ---------------------------------------------------------------------------
+
+/** Directories never worth scanning for path globs */
+const IGNORED_DIRS = new Set([".git", "node_modules", "dist", "build", "coverage", ".opencarly", ".opencode"]);
+
+/** Cap on files scanned so a huge monorepo can't stall the tool */
+const MAX_WORKSPACE_FILES = 20000;
+
+/**
+ * Collect workspace file paths relative to `rootDir`.
+ */
+async function listWorkspaceFiles(rootDir: string): Promise<string[]> {
+  const files: string[] = [];
+  const pending = [""];
+
+  while (pending.length > 0 && files.length < MAX_WORKSPACE_FILES) {
+    const relDir = pending.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(rootDir, relDir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) pending.push(relPath);
+      } else if (entry.isFile()) {
+        files.push(relPath);
+        if (files.length >= MAX_WORKSPACE_FILES) break;
+      }
+    }
+  }
+
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function normalizeKeyword(keyword: string): string {
+  return keyword.toLowerCase().trim();
+}
+
+/**
+ * Lint a loaded config against the workspace at `workspaceDir`.
+ * Inactive domains are skipped - they are off on purpose.
+ */
+export async function lintConfig(config: CarlyConfig, workspaceDir: string): Promise<LintReport> {
+  const { manifest, commands } = config;
+  const issues: LintIssue[] = [];
+  const activeDomains = Object.entries(manifest.domains).filter(([, d]) => d.state === "active");
+
+  // 1. Recall keywords shared by multiple domains
+  const keywordOwners = new Map<string, string[]>();
+  for (const [name, domain] of activeDomains) {
+    if (domain.alwaysOn) continue;
+    for (const keyword of new Set(domain.recall.map(normalizeKeyword))) {
+      if (keyword === "") continue;
+      keywordOwners.set(keyword, [...(keywordOwners.get(keyword) ?? []), name]);
+    }
+  }
+  for (const [keyword, owners] of keywordOwners) {
+    if (owners.length < 2) continue;
+    issues.push({
+      severity: "info",
+      code: "overlapping-recall",
+      target: owners.join(", "),
+      message: `recall "${keyword}" loads ${owners.length} domains at once: ${owners.join(", ")}`,
+    });
+  }
+
+  // 2. Recall keywords that can never trigger because they are excluded
+  const globalExclude = new Set(manifest.globalExclude.map(normalizeKeyword));
+  for (const [name, domain] of activeDomains) {
+    const exclude = new Set(domain.exclude.map(normalizeKeyword));
+    for (const keyword of domain.recall) {
+      const normalized = normalizeKeyword(keyword);
+      if (exclude.has(normalized)) {
+        issues.push({
+          severity: "warning",
+          code: "recall-excluded",
+          target: name,
+          message: `recall "${keyword}" is also in this domain's exclude list, so it always excludes instead of loading`,
+        });
+      }
+      if (globalExclude.has(normalized)) {
+        issues.push({
+          severity: "warning",
+          code: "recall-globally-excluded",
+          target: name,
+          message: `recall "${keyword}" is in globalExclude, so it disables all matching instead of loading`,
+        });
+      }
+    }
+  }
+
+  // 3. Domains that can never load
+  const required = new Set(activeDomains.flatMap(([, domain]) => domain.requires));
+  for (const [name, domain] of activeDomains) {
+    const semantic = usesSemantic(manifest, domain);
+    // Required domains load with the domain requiring them; the checks below still apply
+    const isRequired = required.has(name);
+    if (
+      !isRequired &&
+      !domain.alwaysOn &&
+      domain.recall.length === 0 &&
+      domain.paths.length === 0 &&
+      domain.languages.length === 0 &&
+      !domain.detect &&
+      !domain.git &&
+      !semantic
+    ) {
+      issues.push({
+        severity: "warning",
+        code: "unreachable-domain",
+        target: name,
+        message: "no recall keywords, paths, languages, detect conditions or git triggers, not alwaysOn, no semantic matching and not required by another domain - this domain can never load",
+      });
+      continue;
+    }
+
+    const maxScore = domain.recall.reduce((sum, keyword) => sum + Math.max(domain.weights[keyword] ?? 1, 0), 0);
+    if (!domain.alwaysOn && domain.recall.length > 0 && maxScore < domain.minScore) {
+      const otherTriggers = [
+        ...(domain.paths.length > 0 || domain.languages.length > 0 || domain.git !== undefined
+          ? ["paths, languages or git triggers"]
+          : []),
+        ...(isRequired ? ["domains that require it"] : []),
+      ];
+      issues.push({
+        severity: otherTriggers.length > 0 ? "info" : "warning",
+        code: "unreachable-domain",
+        target: name,
+        message: `minScore ${domain.minScore} is above the highest reachable recall score (${maxScore}) - ${
+          otherTriggers.length > 0 ? `only ${otherTriggers.join(" or ")} can load this domain` : "this domain can never load"
+        }`,
+      });
+    }
+
+    const recall = new Set(domain.recall);
+    for (const keyword of Object.keys(domain.weights)) {
+      if (!recall.has(keyword)) {
+        issues.push({
+          severity: "info",
+          code: "unused-weight",
+          target: name,
+          message: `weight for "${keyword}" has no effect - it is not in this domain's recall list`,
+        });
+      }
+    }
+  }
+
+  // 3b. Git triggers that can never fire
+  for (const [name, domain] of activeDomains) {
+    if (!domain.git) continue;
+    if (!manifest.git.enabled) {
+      issues.push({
+        severity: "info",
+        code: "inert-git-trigger",
+        target: name,
+        message: "git trigger is ignored - set git.enabled in the manifest to read repository state",
+      });
+    } else if (domain.git.changes && domain.paths.length === 0) {
+      issues.push({
+        severity: "warning",
+        code: "inert-git-trigger",
+        target: name,
+        message: `git.changes "${domain.git.changes}" has no paths to match changed files against`,
+      });
+    } else if (domain.git.changes && !manifest.git.changes) {
+      issues.push({
+        severity: "info",
+        code: "inert-git-trigger",
+        target: name,
+        message: `git.changes "${domain.git.changes}" is ignored - git.changes is off in the manifest`,
+      });
+    }
+  }
+
+  // 4. Empty rule files
+  const ruleResults = await Promise.all(
+    activeDomains.map(async ([name, domain]) => ({
+      name,
+      domain,
+      rules: await parseDomainFile(getDomainFilePath(config, name, domain)),
+    }))
+  );
+  for (const { name, domain, rules } of ruleResults) {
+    if (rules.length === 0) {
+      issues.push({
+        severity: "warning",
+        code: "empty-domain",
+        target: name,
+        message: `rule file "${domain.file}" is missing or contains no rules`,
+      });
+    }
+  }
+
+  // 5. Star-command definitions: empty rules, placeholders, includes, aliases
+  for (const [name, cmd] of Object.entries(commands)) {
+    const composed = composeCommand(commands, name);
+    if (composed.rules.every((rule) => rule.trim() === "")) {
+      issues.push({
+        severity: "warning",
+        code: "empty-command",
+        target: `*${name}`,
+        message: "star-command has no rules - invoking it injects nothing",
+      });
+    }
+
+    const declared = new Set(Object.keys(composed.params).map((param) => param.toLowerCase()));
+    const placeholders = new Set(cmd.rules.flatMap(findUnresolvedPlaceholders));
+    for (const placeholder of placeholders) {
+      if (!declared.has(placeholder)) {
+        issues.push({
+          severity: "warning",
+          code: "unknown-placeholder",
+          target: `*${name}`,
+          message: `rules use {{${placeholder}}} but no "${placeholder}" parameter is declared - rules using it are never injected`,
+        });
+      }
+    }
+
+    for (const include of cmd.includes) {
+      if (!findCommand(commands, include)) {
+        issues.push({
+          severity: "warning",
+          code: "unknown-include",
+          target: `*${name}`,
+          message: `includes "${include}", which is not a star-command - it is skipped`,
+        });
+      }
+    }
+
+    for (const alias of cmd.aliases) {
+      const owner = findCommand(commands, alias);
+      if (owner !== name) {
+        issues.push({
+          severity: "warning",
+          code: "alias-conflict",
+          target: `*${name}`,
+          message: `alias "${alias}" already invokes *${owner} - it never reaches this command`,
+        });
+      }
+    }
+
+  }
+
+  // 6. Path globs that match nothing in the workspace
+  const domainsWithPaths = activeDomains.filter(([, d]) => d.paths.length > 0);
+  let workspaceFiles: string[] = [];
+  if (domainsWithPaths.length > 0) {
+    workspaceFiles = await listWorkspaceFiles(workspaceDir);
+    for (const [name, domain] of domainsWithPaths) {
+      for (const glob of domain.paths) {
+        if (!workspaceFiles.some((file) => isPathMatch(file, [glob]))) {
+          issues.push({
+            severity: "info",
+            code: "dead-path-glob",
+            target: name,
+            message: `paths glob "${glob}" matches no files in the workspace`,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    issues,
+    domainsChecked: activeDomains.length,
+    commandsChecked: Object.keys(commands).length,
+    workspaceFiles: workspaceFiles.length,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Report formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a lint report as Markdown for the lint tool.
+ */
+export function formatLintReport(report: LintReport): string {
+  let output = `# OPENCARLY CONFIG LINT\n\n`;
+  output += `Checked ${report.domainsChecked} active domains and ${report.commandsChecked} star-commands`;
+  output += report.workspaceFiles > 0 ? ` against ${report.workspaceFiles} workspace files.\n\n` : `.\n\n`;
+
+  if (report.issues.length === 0) {
+    output += `✅ No problems found.\n`;
+    return output;
+  }
+
+  const sections: Array<[LintSeverity, string]> = [
+    ["warning", "⚠️ WARNINGS"],
+    ["info", "ℹ️ SUGGESTIONS"],
+  ];
+  for (const [severity, title] of sections) {
+    const issues = report.issues.filter((issue) => issue.severity === severity);
+    if (issues.length === 0) continue;
+
+    output += `## ${title} (${issues.length})\n`;
+    output += `| Target | Check | Details |\n|---|---|---|\n`;
+    for (const issue of issues) {
+      output += `| \`${issue.target}\` | ${issue.code} | ${issue.message.replace(/\|/g, "\\|")} |\n`;
+    }
+    output += `\n`;
+  }
+
+  return output;
+}
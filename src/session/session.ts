@@ -12,10 +12,14 @@ import {
   CumulativeStatsSchema,
   type SessionConfig,
   type Manifest,
+  type CommandsFile,
+  type Profile,
   type CumulativeStats,
   type CumulativeSessionSummary,
   type TokenStats,
 } from "../config/schema";
+import type { MatchResult } from "../engine/matcher";
+import { findCommand } from "../engine/commands";
 
 async function atomicWrite(filePath: string, data: string): Promise<void> {
   const tmpPath = `${filePath}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
@@ -185,24 +189,67 @@ export function updateSessionActivity(
 // Session overrides
 // ---------------------------------------------------------------------------
 
+/**
+ * Apply a named profile to a manifest.
+ * Returns a new manifest object; profile values replace manifest values.
+ */
+export function applyProfile(manifest: Manifest, profile: Profile): Manifest {
+  const result: Manifest = { ...manifest };
+
+  if (profile.devmode !== undefined) {
+    result.devmode = profile.devmode;
+  }
+
+  const domainStates = Object.entries(profile.domainStates);
+  if (domainStates.length > 0) {
+    result.domains = { ...manifest.domains };
+    for (const [domainName, active] of domainStates) {
+      if (result.domains[domainName]) {
+        result.domains[domainName] = {
+          ...result.domains[domainName],
+          state: active ? "active" : "inactive",
+        };
+      }
+    }
+  }
+
+  result.commands = {
+    state: profile.commands.state ?? manifest.commands.state,
+    active: profile.commands.active ?? manifest.commands.active,
+  };
+  result.context = {
+    state: profile.context.state ?? manifest.context.state,
+  };
+
+  return result;
+}
+
 /**
  * Apply session overrides to a manifest.
  * Returns a new manifest object with overrides applied.
- * Session overrides take precedence over manifest values.
+ *
+ * Precedence (lowest to highest): manifest, active profile, individual
+ * session overrides. The session's `profile` override wins over
+ * `defaultProfile` (from OPENCARLY_PROFILE); unknown profile names are ignored.
  */
 export function applySessionOverrides(
   manifest: Manifest,
-  session: SessionConfig
+  session: SessionConfig,
+  defaultProfile: string | null = null
 ): Manifest {
+  const profileName = session.overrides.profile ?? defaultProfile;
+  const profile = profileName ? manifest.profiles[profileName] : undefined;
+  const base = profile ? applyProfile(manifest, profile) : manifest;
+
   const hasDevmodeOverride = session.overrides.devmode !== null;
   const hasDomainOverrides = Object.keys(session.overrides.domainStates).length > 0;
   
   if (!hasDevmodeOverride && !hasDomainOverrides) {
-    return manifest;
+    return base;
   }
 
   // Shallow clone the manifest
-  const result: Manifest = { ...manifest };
+  const result: Manifest = { ...base };
 
   // Override devmode if session has a non-null override
   if (hasDevmodeOverride) {
@@ -212,7 +259,7 @@ export function applySessionOverrides(
   // Override per-domain states
   if (hasDomainOverrides) {
     // Shallow clone the domains object so we can mutate specific domains
-    result.domains = { ...manifest.domains };
+    result.domains = { ...base.domains };
     for (const [domainName, stateOverride] of Object.entries(
       session.overrides.domainStates
     )) {
@@ -229,6 +276,89 @@ export function applySessionOverrides(
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Sticky domains
+// ---------------------------------------------------------------------------
+
+/**
+ * Carry sticky domains across prompts.
+ *
+ * A domain with `stickyPrompts: N` that matched this prompt (by keyword,
+ * path, similarity or agent activity) is remembered for N more prompts. On those prompts
+ * it is added to `matchResult.sticky` with the prompts left after this one.
+ * Exclusion keywords (per-domain or global) cancel it early, as does the
+ * domain becoming inactive, out of scope, filtered out for the agent or
+ * model, or losing its stickyPrompts.
+ */
+export function updateStickyDomains(
+  session: SessionConfig,
+  matchResult: MatchResult,
+  manifest: Manifest
+): void {
+  const matchedNow = new Set([
+    ...Object.keys(matchResult.matched),
+    ...Object.keys(matchResult.matchedPaths),
+    ...Object.keys(matchResult.matchedCode),
+    ...Object.keys(matchResult.matchedGit),
+    ...Object.keys(matchResult.matchedSemantic),
+    ...Object.keys(matchResult.matchedActivity),
+  ]);
+  const next: Record<string, number> = {};
+
+  for (const [name, promptsLeft] of Object.entries(session.stickyDomains)) {
+    const domain = manifest.domains[name];
+    if (!domain || domain.state !== "active" || domain.stickyPrompts === 0) continue;
+    if (matchedNow.has(name) || promptsLeft <= 0) continue;
+    if (matchResult.excluded[name] || matchResult.globalExcluded.length > 0) continue;
+    if (matchResult.outOfScope.includes(name) || matchResult.outOfAudience.includes(name)) continue;
+
+    const remaining = Math.min(promptsLeft, domain.stickyPrompts) - 1;
+    matchResult.sticky[name] = remaining;
+    if (remaining > 0) next[name] = remaining;
+  }
+
+  for (const name of matchedNow) {
+    const stickyPrompts = manifest.domains[name]?.stickyPrompts ?? 0;
+    if (stickyPrompts > 0) next[name] = stickyPrompts;
+  }
+
+  session.stickyDomains = next;
+}
+
+// ---------------------------------------------------------------------------
+// Persistent modes
+// ---------------------------------------------------------------------------
+
+/**
+ * Apply star-command mode toggles and carry active modes across prompts.
+ *
+ * `*name+` / `*name on` stores the command (with its arguments) in
+ * `session.modes`; `*name-` / `*name off` removes it. Every active mode is
+ * added to `matchResult.modes`, and modes not typed in this prompt get their
+ * stored arguments. Aliases toggle the command they belong to; toggles for
+ * unknown commands are ignored.
+ */
+export function updateModes(
+  session: SessionConfig,
+  matchResult: MatchResult,
+  commands: CommandsFile
+): void {
+  for (const [typedName, args] of Object.entries(matchResult.starCommandArgs)) {
+    const name = findCommand(commands, typedName) ?? typedName;
+    if (args.toggle === "on" && commands[name]) {
+      session.modes[name] = { named: args.named, positional: args.positional };
+    } else if (args.toggle === "off") {
+      delete session.modes[name];
+    }
+  }
+
+  for (const [name, args] of Object.entries(session.modes)) {
+    if (!commands[name]) continue;
+    matchResult.modes.push(name);
+    matchResult.starCommandArgs[name] ??= { ...args, toggle: null };
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Stale session cleanup
 // ---------------------------------------------------------------------------
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { ActivityConfigSchema } from "../src/config/schema";
+import { collectRecentActivity } from "../src/engine/activity";
+import type { TransformMessage } from "../src/engine/trimmer";
+
+let created = 0;
+
+function user(text: string): TransformMessage {
+  return { info: { role: "user", time: { created: created++ } }, parts: [{ type: "text", text }] };
+}
+
+function assistant(text: string | null, command?: string): TransformMessage {
+  const parts: TransformMessage["parts"] = [];
+  if (text !== null) parts.push({ type: "text", text });
+  if (command) {
+    const tool = { type: "tool", tool: "bash", state: { status: "completed", input: { command } } };
+    parts.push(tool as TransformMessage["parts"][number]);
+  }
+  return { info: { role: "assistant", time: { created: created++ } }, parts };
+}
+
+const config = ActivityConfigSchema.parse({ assistantText: true });
+
+describe("collectRecentActivity", () => {
+  it("only collects the turn after the latest user message", () => {
+    const activity = collectRecentActivity(
+      [
+        user("start the stack"),
+        assistant("Starting it.", "docker compose up"),
+        assistant("The stack is up."),
+        user("now fix the button"),
+        assistant(null, "grep -r Button src"),
+      ],
+      config
+    );
+
+    expect(activity.toolInputs).toEqual(["grep -r Button src"]);
+    expect(activity.assistantText).toBeNull();
+  });
+
+  it("uses the final reply rather than the text before a tool call", () => {
+    const activity = collectRecentActivity(
+      [
+        user("why is the build slow"),
+        assistant("Let me check the webpack config.", "cat webpack.config.js"),
+        assistant("The build is slow because source maps are on."),
+      ],
+      config
+    );
+
+    expect(activity.toolInputs).toEqual(["cat webpack.config.js"]);
+    expect(activity.assistantText).toBe("The build is slow because source maps are on.");
+  });
+
+  it("collects nothing right after a new user message", () => {
+    const activity = collectRecentActivity(
+      [user("start the stack"), assistant("Done.", "docker compose up"), user("ok, continue")],
+      config
+    );
+
+    expect(activity).toEqual({ toolInputs: [], assistantText: null });
+  });
+});
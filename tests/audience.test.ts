@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { AudienceFilterSchema, ManifestSchema } from "../src/config/schema";
+import { isForAudience, type Audience } from "../src/engine/audience";
+import { matchDomains } from "../src/engine/matcher";
+
+const haiku: Audience = { agent: "build", model: { providerID: "anthropic", modelID: "claude-haiku-4" } };
+
+function filter(value: unknown) {
+  return AudienceFilterSchema.parse(value);
+}
+
+describe("isForAudience", () => {
+  it("passes targets without filters", () => {
+    expect(isForAudience({}, haiku)).toBe(true);
+  });
+
+  it("matches agents and models as case-insensitive globs", () => {
+    expect(isForAudience({ agents: filter(["Build"]) }, haiku)).toBe(true);
+    expect(isForAudience({ agents: filter(["plan"]) }, haiku)).toBe(false);
+    expect(isForAudience({ models: filter(["*haiku*"]) }, haiku)).toBe(true);
+    expect(isForAudience({ models: filter(["*opus*"]) }, haiku)).toBe(false);
+  });
+
+  it("matches models by ID or providerID/modelID", () => {
+    expect(isForAudience({ models: filter(["claude-haiku-4"]) }, haiku)).toBe(true);
+    expect(isForAudience({ models: filter(["anthropic/*"]) }, haiku)).toBe(true);
+    expect(isForAudience({ models: filter(["openai/*"]) }, haiku)).toBe(false);
+  });
+
+  it("lets deny win over allow", () => {
+    expect(isForAudience({ models: filter({ deny: ["*haiku*"] }) }, haiku)).toBe(false);
+    expect(isForAudience({ models: filter({ allow: ["anthropic/*"], deny: ["*haiku*"] }) }, haiku)).toBe(false);
+    expect(isForAudience({ agents: filter({ deny: ["plan"] }) }, haiku)).toBe(true);
+  });
+
+  it("does not apply a list when the agent or model is unknown", () => {
+    const unknown: Audience = { agent: null, model: null };
+    expect(isForAudience({ agents: filter(["plan"]), models: filter(["*opus*"]) }, unknown)).toBe(true);
+  });
+});
+
+describe("audience filtering in the matcher", () => {
+  it("treats domains for other agents or models as absent", () => {
+    const manifest = ManifestSchema.parse({
+      domains: {
+        reasoning: { file: "domains/reasoning.md", alwaysOn: true, models: ["*haiku*"] },
+        planning: { file: "domains/planning.md", recall: ["design"], agents: ["plan"] },
+      },
+    });
+
+    const result = matchDomains("sketch a design", manifest, [], { audience: haiku });
+    expect(result.alwaysOn).toEqual(["reasoning"]);
+    expect(result.matched).toEqual({});
+    expect(result.outOfAudience).toEqual(["planning"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { detectStarCommands, matchDomains } from "../src/engine/matcher";
+import { CommandsFileSchema, ContextFileSchema, ManifestSchema } from "../src/config/schema";
+import { findCommand, parseStarCommandArgs, resolveCommand, suggestCommands } from "../src/engine/commands";
+import { loadRules } from "../src/engine/loader";
+import { getBracket } from "../src/engine/brackets";
+import { makeConfig } from "./helpers";
+
+const commands = CommandsFileSchema.parse({
+  review: { aliases: ["rv"], rules: ["Review the change"] },
+  brief: { rules: ["Be brief"] },
+});
+
+describe("star-command detection", () => {
+  it("detects commands after whitespace", () => {
+    expect(detectStarCommands("*brief *dev explain this")).toEqual(["brief", "dev"]);
+  });
+
+  it("ignores markdown emphasis", () => {
+    expect(detectStarCommands("please be *careful* here")).toEqual([]);
+  });
+
+  it("ignores commands inside code blocks and inline code", () => {
+    const manifest = ManifestSchema.parse({});
+    const prompt = "look at `f(x, *args)`\n```python\ndef g(*kwargs): pass\n```\n*brief";
+    expect(matchDomains(prompt, manifest).starCommands).toEqual(["brief"]);
+  });
+});
+
+describe("command lookup", () => {
+  it("finds commands by name or alias", () => {
+    expect(findCommand(commands, "RV")).toBe("review");
+    expect(findCommand(commands, "nope")).toBeNull();
+  });
+
+  it("suggests close names only", () => {
+    expect(suggestCommands(commands, "reveiw")).toEqual(["review"]);
+    expect(suggestCommands(commands, "args")).toEqual([]);
+  });
+});
+
+describe("unknown star-command notices", () => {
+  const manifest = ManifestSchema.parse({});
+  const context = ContextFileSchema.parse({});
+  const config = makeConfig({ manifest, commands, context });
+  const load = (prompt: string) =>
+    loadRules(matchDomains(prompt, manifest), config, getBracket(1, context), 1);
+
+  it("suggests a command for a likely typo", async () => {
+    expect((await load("*reveiw this diff")).unknownCommands).toEqual({ reveiw: ["review"] });
+  });
+
+  it("stays silent for words that are not close to any command", async () => {
+    expect((await load("*seriously, why is this slow")).unknownCommands).toEqual({});
+  });
+});
+
+describe("star-command arguments", () => {
+  const lang = CommandsFileSchema.parse({
+    lang: {
+      params: { language: { required: true }, style: { values: ["strict", "loose"], default: "loose" } },
+      rules: ["Answer in {{language}}", "Use the {{style}} style"],
+    },
+  }).lang;
+
+  it("parses named, quoted and positional arguments on the same line", () => {
+    expect(parseStarCommandArgs('*review severity=high focus="error handling"\nnext line')).toEqual({
+      review: { named: { severity: "high", focus: "error handling" }, positional: [], toggle: null },
+    });
+    expect(parseStarCommandArgs("*lang python").lang.positional).toEqual(["python"]);
+  });
+
+  it("stops positional arguments at punctuation", () => {
+    expect(parseStarCommandArgs("*lang python, then refactor the parser").lang.positional).toEqual(["python"]);
+    expect(parseStarCommandArgs("use *lang go. Write tests").lang.positional).toEqual(["go"]);
+    expect(parseStarCommandArgs("*review severity=high; focus on perf").review.named).toEqual({ severity: "high" });
+  });
+
+  it("parses mode toggles", () => {
+    expect(parseStarCommandArgs("*brief+ please").brief.toggle).toBe("on");
+    expect(parseStarCommandArgs("*brief off").brief.toggle).toBe("off");
+  });
+
+  it("fills parameters and applies defaults", () => {
+    const resolved = resolveCommand(lang, { named: {}, positional: ["python"] });
+    expect(resolved.values).toEqual({ language: "python", style: "loose" });
+    expect(resolved.rules).toEqual(["Answer in python", "Use the loose style"]);
+    expect(resolved.warnings).toEqual([]);
+  });
+
+  it("rejects invalid values and skips commands missing required values", () => {
+    const invalid = resolveCommand(lang, { named: { language: "go", style: "wild" }, positional: [] });
+    expect(invalid.values.style).toBe("loose");
+    expect(invalid.warnings[0]).toContain("style=wild ignored");
+
+    const missing = resolveCommand(lang, { named: {}, positional: [] });
+    expect(missing.rules).toEqual([]);
+    expect(missing.warnings[0]).toContain("missing required language");
+  });
+
+  it("drops rules whose placeholders have no value", () => {
+    const command = CommandsFileSchema.parse({
+      review: { params: { focus: {} }, rules: ["Review carefully", "Focus on {{focus}}", "Cite {{ticket}}"] },
+    }).review;
+    const resolved = resolveCommand(command);
+    expect(resolved.rules).toEqual(["Review carefully"]);
+    expect(resolved.warnings).toEqual(["no value for {{focus}}, {{ticket}} - rules using them skipped"]);
+  });
+
+  it("rejects defaults that do not fit the parameter", () => {
+    const parse = (param: Record<string, unknown>) =>
+      CommandsFileSchema.safeParse({ cmd: { params: { p: param }, rules: ["{{p}}"] } }).success;
+    expect(parse({ values: ["low", "high"], default: "medium" })).toBe(false);
+    expect(parse({ type: "number", default: "many" })).toBe(false);
+    expect(parse({ type: "boolean", default: "maybe" })).toBe(false);
+    expect(parse({ type: "number", default: 3 })).toBe(true);
+    expect(parse({ values: ["low", "high"], default: "HIGH" })).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { loadConfig, parseFrontMatter } from "../src/config";
+
+describe("parseFrontMatter", () => {
+  it("parses the block as YAML and returns the body", () => {
+    const { data, body, error } = parseFrontMatter(
+      [
+        "---",
+        "name: database",
+        'recall: [migration, "raw SQL", "a, b"]',
+        "exclude:",
+        "  - changelog # comment",
+        "alwaysOn: false",
+        "priority: 2",
+        "---",
+        "# Database Rules",
+        "- Reversible migrations",
+      ].join("\n")
+    );
+
+    expect(error).toBeNull();
+    expect(data).toEqual({
+      name: "database",
+      recall: ["migration", "raw SQL", "a, b"],
+      exclude: ["changelog"],
+      alwaysOn: false,
+      priority: 2,
+    });
+    expect(body).toBe("# Database Rules\n- Reversible migrations");
+  });
+
+  it("keeps nested values instead of flattening them", () => {
+    const { data } = parseFrontMatter("---\ngit:\n  branch: release/*\n---\n- rule");
+    expect(data).toEqual({ git: { branch: "release/*" } });
+  });
+
+  it("returns the content untouched without a complete block", () => {
+    expect(parseFrontMatter("- rule")).toEqual({ data: null, body: "- rule", error: null });
+    expect(parseFrontMatter("---\nrecall: [a]\n- rule")).toEqual({
+      data: null,
+      body: "---\nrecall: [a]\n- rule",
+      error: null,
+    });
+  });
+
+  it("treats an empty block as empty metadata", () => {
+    expect(parseFrontMatter("---\n---\n- rule")).toEqual({ data: {}, body: "- rule", error: null });
+  });
+
+  it("reports invalid YAML and non-mapping blocks", () => {
+    const invalid = parseFrontMatter("---\nrecall: [a, b\n---\n- rule");
+    expect(invalid.data).toBeNull();
+    expect(invalid.body).toBe("- rule");
+    expect(invalid.error).toMatch(/^invalid YAML at line \d+/);
+
+    const list = parseFrontMatter("---\n- a\n- b\n---\n- rule");
+    expect(list.data).toBeNull();
+    expect(list.error).toContain("mapping");
+  });
+});
+
+describe("front-matter domains", () => {
+  it("warns about invalid front-matter and still loads the other files", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "opencarly-frontmatter-"));
+    try {
+      const dir = path.join(root, ".opencarly");
+      fs.mkdirSync(path.join(dir, "domains"), { recursive: true });
+      fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify({ version: 2 }));
+      fs.writeFileSync(path.join(dir, "domains", "broken.md"), "---\nrecall: [a, b\n---\n- rule\n");
+      fs.writeFileSync(path.join(dir, "domains", "testing.md"), "---\nrecall: [test]\n---\n- Write tests\n");
+
+      const config = await loadConfig([{ configPath: dir, scope: "root" }]);
+
+      expect(Object.keys(config.manifest.domains)).toEqual(["testing"]);
+      expect(config.manifest.domains.testing.recall).toEqual(["test"]);
+      expect(config.warnings.find((w) => w.includes("domains/broken.md"))).toContain("invalid YAML");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
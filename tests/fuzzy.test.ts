@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { ManifestSchema } from "../src/config/schema";
+import { allowedDistance, editDistance } from "../src/engine/fuzzy";
+import { matchDomains } from "../src/engine/matcher";
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and swaps as one edit", () => {
+    expect(editDistance("security", "security", 2)).toBe(0);
+    expect(editDistance("security", "secuirty", 2)).toBe(1);
+    expect(editDistance("security", "securty", 2)).toBe(1);
+    expect(editDistance("security", "securitty", 2)).toBe(1);
+    expect(editDistance("security", "severity", 2)).toBe(2);
+  });
+
+  it("gives up once the limit is exceeded", () => {
+    expect(editDistance("security", "severity", 1)).toBe(2);
+    expect(editDistance("deploy", "deployments", 2)).toBe(3);
+  });
+});
+
+describe("allowedDistance", () => {
+  it("allows one edit below ten characters", () => {
+    expect(allowedDistance("test", 2)).toBe(0);
+    expect(allowedDistance("docker", 2)).toBe(1);
+    expect(allowedDistance("security", 2)).toBe(1);
+    expect(allowedDistance("migration", 2)).toBe(1);
+    expect(allowedDistance("permission", 2)).toBe(2);
+    expect(allowedDistance("authentication", 2)).toBe(2);
+    expect(allowedDistance("authentication", 1)).toBe(1);
+  });
+});
+
+describe("fuzzy recall", () => {
+  const manifest = ManifestSchema.parse({
+    fuzzy: { enabled: true },
+    domains: {
+      security: { file: "domains/security.md", recall: ["security", "authentication"] },
+      deploy: { file: "domains/deploy.md", recall: ["deploy", "migration"] },
+    },
+  });
+  const matched = (prompt: string) => Object.keys(matchDomains(prompt, manifest).matched);
+
+  it("tolerates typos", () => {
+    expect(matched("fix the secuirty hole")).toEqual(["security"]);
+    expect(matched("authentification is broken")).toEqual(["security"]);
+    expect(matched("run the migartion")).toEqual(["deploy"]);
+  });
+
+  it("does not match near-miss words", () => {
+    expect(matched("*review severity=high")).toEqual([]);
+    expect(matched("we employ a new approach")).toEqual([]);
+    expect(matched("mitigation steps for the outage")).toEqual([]);
+  });
+});
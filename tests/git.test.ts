@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { parseGitStatus } from "../src/engine/git";
+
+describe("parseGitStatus", () => {
+  it("separates staged files from unstaged and untracked ones", () => {
+    const status = parseGitStatus(" M src/app.ts\0?? notes/todo.md\0MM src/db.ts\0A  src/new file.ts\0");
+    expect(status.changed).toEqual(["src/app.ts", "notes/todo.md", "src/db.ts", "src/new file.ts"]);
+    expect(status.staged).toEqual(["src/db.ts", "src/new file.ts"]);
+  });
+
+  it("skips the original path of renames and copies", () => {
+    const status = parseGitStatus("R  src/renamed.ts\0src/original.ts\0C  src/copy.ts\0src/source.ts\0 D gone.ts\0");
+    expect(status.changed).toEqual(["src/renamed.ts", "src/copy.ts", "gone.ts"]);
+    expect(status.staged).toEqual(["src/renamed.ts", "src/copy.ts"]);
+  });
+
+  it("returns nothing for a clean tree", () => {
+    expect(parseGitStatus("")).toEqual({ changed: [], staged: [] });
+  });
+});
@@ -0,0 +1,18 @@
+import * as os from "os";
+import { CommandsFileSchema, ContextFileSchema, ManifestSchema } from "../src/config/schema";
+import type { CarlyConfig } from "../src/config/manifest";
+
+/** An empty loaded config: no layers, default manifest, commands and context */
+export function makeConfig(overrides: Partial<CarlyConfig> = {}): CarlyConfig {
+  return {
+    manifest: ManifestSchema.parse({}),
+    commands: CommandsFileSchema.parse({}),
+    context: ContextFileSchema.parse({}),
+    configPath: os.tmpdir(),
+    layers: [],
+    domainSources: {},
+    warnings: [],
+    failedLayers: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { compileKeyword, getKeywordKind, suggestKeywordPattern, validateKeyword } from "../src/engine";
+
+describe("getKeywordKind", () => {
+  it("requires a prefix for patterns", () => {
+    expect(getKeywordKind("re:migrat(e|ion)s?")).toBe("regex");
+    expect(getKeywordKind("glob:migrat*")).toBe("wildcard");
+    expect(getKeywordKind("migrat*")).toBe("literal");
+    expect(getKeywordKind("what?")).toBe("literal");
+    expect(getKeywordKind("/api/")).toBe("literal");
+  });
+});
+
+describe("compileKeyword", () => {
+  it("keeps unprefixed entries literal", () => {
+    const { regex } = compileKeyword("what?");
+    expect(regex.test("so what? now")).toBe(true);
+    expect(regex.test("whats up")).toBe(false);
+    expect(compileKeyword("/api/").regex.test("call /api/ here")).toBe(true);
+  });
+
+  it("compiles word patterns on word boundaries", () => {
+    const { regex } = compileKeyword("glob:write * tests");
+    expect(regex.test("please write unit tests")).toBe(true);
+    expect(regex.test("rewrite unit tests")).toBe(false);
+    expect(compileKeyword("glob:deploy?").regex.test("deploys")).toBe(true);
+  });
+
+  it("compiles regexes case-insensitively unless flags are given", () => {
+    expect(compileKeyword("re:migrat(e|ion)s?").regex.test("Run the MIGRATIONS")).toBe(true);
+    expect(compileKeyword("re:/API/").regex.test("the api")).toBe(false);
+    expect(compileKeyword("re:/API/").regex.test("the API")).toBe(true);
+    expect(compileKeyword("re:/api/gi").regex.flags).toBe("i");
+  });
+});
+
+describe("validateKeyword", () => {
+  it("reports invalid and empty patterns", () => {
+    expect(validateKeyword("re:migrat(e")).not.toBeNull();
+    expect(validateKeyword("re:")).not.toBeNull();
+    expect(validateKeyword("glob:")).not.toBeNull();
+    expect(validateKeyword("plain keyword")).toBeNull();
+  });
+
+  it("rejects nested unbounded quantifiers", () => {
+    expect(validateKeyword("re:(a+)+$")).toMatch(/repeats a group/);
+    expect(validateKeyword("re:(\\w*\\s?)*end")).toMatch(/repeats a group/);
+    expect(validateKeyword("re:((ab)*c){2,}")).toMatch(/repeats a group/);
+    expect(validateKeyword("re:(?:x|y+)*")).toMatch(/repeats a group/);
+  });
+
+  it("accepts bounded or flat repetition", () => {
+    expect(validateKeyword("re:(ab)+")).toBeNull();
+    expect(validateKeyword("re:(a+){2}")).toBeNull();
+    expect(validateKeyword("re:[(+]+x")).toBeNull();
+    expect(validateKeyword("re:\\(a+\\)+")).toBeNull();
+    expect(validateKeyword("re:(?<word>\\w+) again")).toBeNull();
+  });
+
+  it("rejects overly long regexes", () => {
+    expect(validateKeyword("re:" + "a".repeat(201))).toMatch(/longer than 200/);
+    expect(validateKeyword("re:" + "a".repeat(200))).toBeNull();
+  });
+});
+
+describe("suggestKeywordPattern", () => {
+  it("suggests a prefix for literals written like patterns", () => {
+    expect(suggestKeywordPattern("/migrat(e|ion)/i")).toBe("re:/migrat(e|ion)/i");
+    expect(suggestKeywordPattern("migrat*")).toBe("glob:migrat*");
+    expect(suggestKeywordPattern("what?")).toBeNull();
+    expect(suggestKeywordPattern("c++")).toBeNull();
+    expect(suggestKeywordPattern("glob:migrat*")).toBeNull();
+  });
+});
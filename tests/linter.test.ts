@@ -0,0 +1,48 @@
+import * as os from "os";
+import { describe, expect, it } from "vitest";
+import { ManifestSchema } from "../src/config/schema";
+import { lintConfig } from "../src/lint/linter";
+import { makeConfig } from "./helpers";
+
+async function issuesFor(domains: Record<string, unknown>, target: string) {
+  const report = await lintConfig(makeConfig({ manifest: ManifestSchema.parse({ domains }) }), os.tmpdir());
+  return report.issues.filter((issue) => issue.target === target && issue.code !== "empty-domain");
+}
+
+describe("unreachable-domain", () => {
+  it("warns about a domain with no way to load", async () => {
+    const issues = await issuesFor({ orphan: { file: "domains/orphan.md" } }, "orphan");
+    expect(issues.map((issue) => issue.code)).toEqual(["unreachable-domain"]);
+  });
+
+  it("does not call a required domain unreachable", async () => {
+    const issues = await issuesFor(
+      {
+        api: { file: "domains/api.md", recall: ["api"], requires: ["security"] },
+        security: { file: "domains/security.md" },
+      },
+      "security"
+    );
+    expect(issues).toEqual([]);
+  });
+
+  it("still checks minScore and weights of required domains", async () => {
+    const issues = await issuesFor(
+      {
+        api: { file: "domains/api.md", recall: ["api"], requires: ["security"] },
+        security: {
+          file: "domains/security.md",
+          recall: ["token"],
+          weights: { token: 0.5, secret: 2 },
+          minScore: 1,
+        },
+      },
+      "security"
+    );
+    expect(issues.map((issue) => [issue.code, issue.severity])).toEqual([
+      ["unreachable-domain", "info"],
+      ["unused-weight", "info"],
+    ]);
+    expect(issues[0].message).toContain("only domains that require it can load this domain");
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadConfig, type ConfigLayer } from "../src/config";
+
+let root: string;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "opencarly-manifest-"));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+/** Create a .opencarly/ layer with the given files and return its path */
+function writeLayer(name: string, files: Record<string, string>): string {
+  const dir = path.join(root, name, ".opencarly");
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+  return dir;
+}
+
+const validManifest = JSON.stringify({
+  version: 2,
+  domains: { testing: { file: "domains/testing.md", recall: ["test"] } },
+});
+
+describe("loadConfig layer merging", () => {
+  it("skips a layer with an invalid manifest and merges the rest", async () => {
+    const global = writeLayer("global", {
+      "manifest.json": JSON.stringify({ version: 2, devmode: "yes" }),
+    });
+    const project = writeLayer("project", {
+      "manifest.json": validManifest,
+      "domains/testing.md": "- Write tests\n",
+    });
+    const layers: ConfigLayer[] = [
+      { configPath: global, scope: "global" },
+      { configPath: project, scope: "root" },
+    ];
+
+    const config = await loadConfig(layers);
+
+    expect(Object.keys(config.manifest.domains)).toEqual(["testing"]);
+    expect(config.manifest.devmode).toBe(false);
+    const warning = config.warnings.find((w) => w.includes("manifest validation failed"));
+    expect(warning).toContain(`[global: ${global}]`);
+    expect(warning).toContain("devmode");
+  });
+
+  it("skips a layer whose manifest has a syntax error", async () => {
+    const global = writeLayer("global", { "manifest.json": "{ not json" });
+    const project = writeLayer("project", {
+      "manifest.json": validManifest,
+      "domains/testing.md": "- Write tests\n",
+    });
+
+    const config = await loadConfig([
+      { configPath: global, scope: "global" },
+      { configPath: project, scope: "root" },
+    ]);
+
+    expect(Object.keys(config.manifest.domains)).toEqual(["testing"]);
+    expect(config.warnings.some((w) => w.includes(global))).toBe(true);
+  });
+
+  it("names the layer in context validation warnings", async () => {
+    const global = writeLayer("global", {
+      "manifest.json": JSON.stringify({ version: 2 }),
+      "context.json": JSON.stringify(["not", "an", "object"]),
+    });
+    const project = writeLayer("project", {
+      "manifest.json": JSON.stringify({ version: 2 }),
+      "context.json": JSON.stringify({ thresholds: { moderate: 40, depleted: 30 } }),
+    });
+
+    const config = await loadConfig([
+      { configPath: global, scope: "global" },
+      { configPath: project, scope: "root" },
+    ]);
+
+    expect(config.warnings.find((w) => w.includes("validation errors"))).toContain(`[global: ${global}]`);
+    expect(config.warnings.find((w) => w.includes("moderate threshold"))).toContain(`[root: ${project}]`);
+  });
+
+  it("lists layers whose manifest was rejected", async () => {
+    const single = (manifest: string) => writeLayer(`single-${Math.random()}`, { "manifest.json": manifest });
+
+    const broken = [
+      '{ "version": 2,, }',
+      JSON.stringify({ version: 2, devmode: "yes" }),
+      JSON.stringify({ version: 3 }),
+    ];
+    for (const manifest of broken) {
+      const dir = single(manifest);
+      const config = await loadConfig(dir);
+      expect(config.failedLayers.map((layer) => layer.configPath)).toEqual([dir]);
+      expect(config.warnings.some((w) => w.includes("manifest of this layer skipped"))).toBe(true);
+    }
+
+    const valid = writeLayer("valid", { "manifest.json": validManifest, "domains/testing.md": "- Write tests\n" });
+    expect((await loadConfig(valid)).failedLayers).toEqual([]);
+  });
+
+  it("lists layers whose commands or context file was rejected", async () => {
+    const dir = writeLayer("project", {
+      "manifest.json": JSON.stringify({ version: 2 }),
+      "commands.json": JSON.stringify({ brief: { rules: "not a list" } }),
+    });
+
+    const config = await loadConfig(dir);
+
+    expect(config.failedLayers.map((layer) => layer.configPath)).toEqual([dir]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { findNegatedPhrase } from "../src/engine/negation";
+import { matchDomains } from "../src/engine/matcher";
+import { ManifestSchema } from "../src/config/schema";
+
+describe("findNegatedPhrase", () => {
+  it.each([
+    ["don't touch the tests", "tests", "don't touch the tests"],
+    ["skip the tests for now", "tests", "skip the tests"],
+    ["no security changes needed", "security", "no security"],
+    ["please do not change the auth module", "auth", "not change the auth"],
+    ["no more tests please", "tests", "no more tests"],
+    ["never touch the auth module", "auth", "never touch the auth"],
+  ])("finds the negation in %j", (prompt, keyword, phrase) => {
+    expect(findNegatedPhrase(prompt, keyword)).toBe(phrase);
+  });
+
+  it.each([
+    ["why doesn't auth work", "auth"],
+    ["why can't the tests find the module", "tests"],
+    ["I don't understand the tests", "tests"],
+    ["I do not understand the tests", "tests"],
+    ["ignore errors in the auth flow and fix the tests", "auth"],
+    ["the tests don't pass", "tests"],
+    ["not only the tests but the docs", "tests"],
+    ["no idea why the tests fail", "tests"],
+    ["not sure the tests pass", "tests"],
+    ["I never wrote tests for this module so add some", "tests"],
+    ["we have no tests yet so write some", "tests"],
+  ])("does not negate %j", (prompt, keyword) => {
+    expect(findNegatedPhrase(prompt, keyword)).toBeNull();
+  });
+
+  it("requires every mention to be negated", () => {
+    expect(findNegatedPhrase("don't touch the tests, but add tests for the parser", "tests")).toBeNull();
+  });
+
+  it("matches by stem when stemming is on", () => {
+    expect(findNegatedPhrase("skip testing", "test", true)).toBe("skip testing");
+  });
+});
+
+describe("matchDomains with negation", () => {
+  const manifest = (negation?: boolean) =>
+    ManifestSchema.parse({
+      ...(negation === undefined ? {} : { negation }),
+      domains: { testing: { file: "testing.md", recall: ["tests", "coverage"] } },
+    });
+
+  it("is off by default", () => {
+    const result = matchDomains("don't touch the tests", manifest());
+    expect(result.matched.testing).toEqual(["tests"]);
+  });
+
+  it("excludes a domain when all of its recall hits are negated", () => {
+    const result = matchDomains("don't touch the tests", manifest(true));
+    expect(result.excluded.testing).toEqual(["don't touch the tests"]);
+  });
+
+  it("keeps the domain when another recall hit is not negated", () => {
+    const result = matchDomains("don't touch the tests, just raise coverage", manifest(true));
+    expect(result.excluded.testing).toBeUndefined();
+    expect(result.matched.testing).toEqual(["coverage"]);
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { ConfigSyntaxError, parseJsonc } from "../src/config/parser";
+import { migrateManifest, writeMigratedManifest } from "../src/config/migrations";
+
+/** Parse and return the thrown ConfigSyntaxError */
+function syntaxError(text: string): ConfigSyntaxError {
+  try {
+    parseJsonc(text, "/x/manifest.jsonc");
+  } catch (err) {
+    if (err instanceof ConfigSyntaxError) return err;
+    throw err;
+  }
+  throw new Error("expected a syntax error");
+}
+
+describe("parseJsonc", () => {
+  it("accepts line and block comments", () => {
+    const text = '// header\n{\n  /* inline */ "a": 1, // trailing\n  "b": "// not a comment"\n}';
+    expect(parseJsonc(text, "x.jsonc")).toEqual({ a: 1, b: "// not a comment" });
+  });
+
+  it("accepts trailing commas", () => {
+    expect(parseJsonc('{ "a": [1, 2,], }', "x.jsonc")).toEqual({ a: [1, 2] });
+  });
+
+  it("skips a byte order mark", () => {
+    expect(parseJsonc('\uFEFF{ "a": true }', "x.json")).toEqual({ a: true });
+  });
+
+  it("keeps __proto__ as a plain key", () => {
+    const data = parseJsonc('{ "__proto__": { "polluted": true } }', "x.json") as Record<string, unknown>;
+    expect(Object.getPrototypeOf(data)).toBe(Object.prototype);
+    expect(Object.keys(data)).toEqual(["__proto__"]);
+  });
+
+  it("reports the line and column of a missing comma", () => {
+    const err = syntaxError('{\n  "a": 1\n  "b": 2\n}');
+    expect([err.line, err.column]).toEqual([3, 3]);
+    expect(err.detail).toBe('Expected ","');
+  });
+
+  it("reports a raw tab in a string as a control character", () => {
+    expect(syntaxError('{ "a": "x\ty" }').detail).toMatch(/Control character/);
+  });
+
+  it("reports unterminated strings and comments", () => {
+    expect(syntaxError('{ "a": "x').detail).toBe("Unterminated string");
+    expect(syntaxError('{ "a": 1 /* open').detail).toBe("Unterminated block comment");
+  });
+
+  it("rejects empty input", () => {
+    expect(syntaxError("  ").detail).toBe("Expected a value");
+  });
+});
+
+describe("writeMigratedManifest", () => {
+  it("keeps comments in JSONC manifests", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "opencarly-migrate-"));
+    try {
+      fs.mkdirSync(path.join(dir, "domains"));
+      fs.writeFileSync(path.join(dir, "domains", "testing.md"), "# Testing\n\nTest conventions.\n\n- Rule\n");
+      const manifestPath = path.join(dir, "manifest.jsonc");
+      const original = '{\n  // Testing rules\n  "domains": {\n    "testing": { "file": "domains/testing.md" }, // keep me\n  },\n}\n';
+      fs.writeFileSync(manifestPath, original);
+
+      const migration = await migrateManifest(parseJsonc(original, manifestPath), dir);
+      const backupPath = await writeMigratedManifest(manifestPath, migration);
+      const written = fs.readFileSync(manifestPath, "utf-8");
+
+      expect(written).toContain("// Testing rules");
+      expect(written).toContain("// keep me");
+      expect(parseJsonc(written, manifestPath)).toEqual({
+        version: 2,
+        domains: { testing: { file: "domains/testing.md", description: "Test conventions." } },
+      });
+      expect(fs.readFileSync(backupPath, "utf-8")).toBe(original);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { OpenCarly } from "../src/index";
+import { watchConfig } from "../src/config/watcher";
+
+let root: string;
+let home: string | undefined;
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "opencarly-reload-"));
+  // Keep a global config in the real home directory out of the test
+  home = process.env.HOME;
+  process.env.HOME = root;
+});
+
+afterEach(() => {
+  process.env.HOME = home;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("timed out");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe("config watcher", () => {
+  it("picks up a domains/ folder created after watching started", async () => {
+    const configPath = path.join(root, ".opencarly");
+    fs.mkdirSync(configPath);
+    const changes: string[] = [];
+    const watcher = watchConfig([{ configPath, scope: "root" }], (files) => changes.push(...files), 50);
+
+    try {
+      fs.mkdirSync(path.join(configPath, "domains"));
+      await waitFor(() => changes.length > 0);
+      changes.length = 0;
+
+      fs.writeFileSync(path.join(configPath, "domains", "testing.md"), "- Write tests\n");
+      await waitFor(() => changes.includes(path.join(configPath, "domains", "testing.md")));
+    } finally {
+      watcher.close();
+    }
+  });
+});
+
+describe("hot reload", () => {
+  it("keeps the last good config when an edit breaks the manifest", async () => {
+    const project = path.join(root, "project");
+    const configPath = path.join(project, ".opencarly");
+    fs.mkdirSync(path.join(configPath, "domains"), { recursive: true });
+    fs.writeFileSync(
+      path.join(configPath, "manifest.json"),
+      JSON.stringify({ version: 2, domains: { testing: { file: "domains/testing.md", recall: ["test"] } } })
+    );
+    fs.writeFileSync(path.join(configPath, "domains", "testing.md"), "- Write tests first\n");
+
+    const messages: string[] = [];
+    const client = { app: { log: async ({ body }: { body: { message: string } }) => messages.push(body.message) } };
+    const hooks = await OpenCarly({ directory: project, client } as unknown as Parameters<typeof OpenCarly>[0]);
+
+    fs.writeFileSync(path.join(configPath, "manifest.json"), '{ "version": 2,, }');
+    await waitFor(() => messages.some((message) => message.startsWith("Config reload failed")));
+
+    const chatMessage = hooks["chat.message"] as (input: unknown, output: unknown) => Promise<void>;
+    const systemTransform = hooks["experimental.chat.system.transform"] as (
+      input: unknown,
+      output: { system: string[] }
+    ) => Promise<void>;
+    await chatMessage({ sessionID: "s1" }, { parts: [{ type: "text", text: "add a test for the parser" }] });
+    const output = { system: [] as string[] };
+    await systemTransform({ sessionID: "s1" }, output);
+
+    expect(output.system.join("\n")).toContain("Write tests first");
+    expect(messages).not.toContain("Config reloaded");
+  });
+});
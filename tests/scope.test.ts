@@ -0,0 +1,68 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { getDomainScopeRoot } from "../src/config/manifest";
+import { ManifestSchema } from "../src/config/schema";
+import { matchDomains } from "../src/engine/matcher";
+import { makeConfig } from "./helpers";
+
+const root = path.join(path.sep, "repo");
+
+const manifest = ManifestSchema.parse({
+  domains: {
+    web: { file: "domains/web.md", recall: ["component"], scope: ["packages/web"] },
+    api: { file: "domains/api.md", recall: ["endpoint"], scope: ["packages/api", "services/*"] },
+    shared: { file: "domains/shared.md", recall: ["component", "endpoint"] },
+  },
+});
+
+function match(prompt: string, cwd: string, activeFiles: string[] = []) {
+  return matchDomains(prompt, manifest, activeFiles, { scope: { cwd, scopeRoot: () => root } });
+}
+
+describe("scope", () => {
+  it("hides scoped domains outside their subtree", () => {
+    const result = match("add a component and an endpoint", path.join(root, "packages", "web", "src"));
+
+    expect(Object.keys(result.matched).sort()).toEqual(["shared", "web"]);
+    expect(result.outOfScope).toEqual(["api"]);
+  });
+
+  it("matches scope globs against the directory and everything below it", () => {
+    expect(match("new endpoint", path.join(root, "services", "billing", "src")).outOfScope).toEqual(["web"]);
+    expect(match("new endpoint", path.join(root, "services")).outOfScope).toEqual(["web", "api"]);
+  });
+
+  it("counts active files as locations", () => {
+    const result = match("new endpoint", root, ["packages/api/src/routes.ts"]);
+    expect(result.outOfScope).toEqual(["web"]);
+    expect(Object.keys(result.matched).sort()).toEqual(["api", "shared"]);
+  });
+
+  it("is not checked without a session location", () => {
+    const result = matchDomains("add a component and an endpoint", manifest);
+    expect(result.outOfScope).toEqual([]);
+    expect(Object.keys(result.matched).sort()).toEqual(["api", "shared", "web"]);
+  });
+});
+
+describe("getDomainScopeRoot", () => {
+  it("resolves package domains against their package and the rest against the root layer", () => {
+    const rootLayer = path.join(root, ".opencarly");
+    const packageLayer = path.join(root, "packages", "web", ".opencarly");
+    const config = makeConfig({
+      configPath: packageLayer,
+      layers: [
+        { configPath: rootLayer, scope: "root" },
+        { configPath: packageLayer, scope: "package" },
+      ],
+      domainSources: {
+        web: { configPath: packageLayer, scope: "package" },
+        api: { configPath: rootLayer, scope: "root" },
+      },
+    });
+
+    expect(getDomainScopeRoot(config, "web")).toBe(path.join(root, "packages", "web"));
+    expect(getDomainScopeRoot(config, "api")).toBe(root);
+    expect(getDomainScopeRoot(config, "unknown")).toBe(root);
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { loadConfig } from "../src/config";
+import { ContextFileSchema, ManifestSchema } from "../src/config/schema";
+import { getBracket } from "../src/engine/brackets";
+import { loadRules } from "../src/engine/loader";
+import { matchDomains } from "../src/engine/matcher";
+import { isSemanticEnabled } from "../src/engine/semantic";
+import { formatRules } from "../src/formatter/formatter";
+import { makeConfig } from "./helpers";
+
+describe("semantic threshold", () => {
+  it("keeps semantic matching off until a threshold is set", () => {
+    const domains = { security: { file: "domains/security.md", recall: ["auth"] } };
+    expect(isSemanticEnabled(ManifestSchema.parse({ semantic: { enabled: true }, domains }))).toBe(false);
+    expect(isSemanticEnabled(ManifestSchema.parse({ semantic: { enabled: true, threshold: 0.2 }, domains }))).toBe(true);
+  });
+
+  it("warns when semantic matching is enabled without a threshold", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "opencarly-semantic-"));
+    try {
+      const dir = path.join(root, ".opencarly");
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(
+        path.join(dir, "manifest.json"),
+        JSON.stringify({ version: 2, semantic: { enabled: true }, domains: { security: { file: "domains/security.md" } } })
+      );
+
+      const config = await loadConfig([{ configPath: dir, scope: "root" }]);
+
+      expect(config.warnings.some((w) => w.includes("semantic.threshold is not set"))).toBe(true);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("loaded domain summary", () => {
+  it("lists every source that matched a domain", async () => {
+    const manifest = ManifestSchema.parse({});
+    const context = ContextFileSchema.parse({});
+    const config = makeConfig({ manifest, context });
+    const loaded = await loadRules(matchDomains("hello", manifest), config, getBracket(1, context), 1);
+
+    const output = formatRules({
+      ...loaded,
+      matched: { security: ["Never log tokens"] },
+      matchedKeywords: { security: ["auth"] },
+      matchedPaths: { security: ["src/auth/session.ts"] },
+      matchedSemantic: { security: { similarity: 0.31, terms: ["token"] } },
+      requiredBy: { security: "api" },
+    });
+
+    expect(output).toContain(
+      '[SECURITY] matched: "auth"; matched path: "src/auth/session.ts"; matched (semantic 0.31): "token"; required by: API (1 rules)'
+    );
+  });
+});
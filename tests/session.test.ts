@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { CommandsFileSchema, ManifestSchema } from "../src/config/schema";
+import { matchDomains } from "../src/engine/matcher";
+import { createSession, updateModes, updateStickyDomains } from "../src/session/session";
+
+describe("updateStickyDomains", () => {
+  const manifest = ManifestSchema.parse({
+    domains: {
+      database: { file: "domains/database.md", recall: ["migration"], exclude: ["no db"], stickyPrompts: 2 },
+      testing: { file: "domains/testing.md", recall: ["test"] },
+    },
+  });
+
+  function prompt(session: ReturnType<typeof createSession>, text: string) {
+    const result = matchDomains(text, manifest);
+    updateStickyDomains(session, result, manifest);
+    return result;
+  }
+
+  it("keeps a matched domain for stickyPrompts prompts", () => {
+    const session = createSession("s1", "/repo");
+
+    expect(prompt(session, "write a migration").sticky).toEqual({});
+    expect(session.stickyDomains).toEqual({ database: 2 });
+
+    expect(prompt(session, "ok do it").sticky).toEqual({ database: 1 });
+    expect(prompt(session, "and commit").sticky).toEqual({ database: 0 });
+    expect(session.stickyDomains).toEqual({});
+    expect(prompt(session, "thanks").sticky).toEqual({});
+  });
+
+  it("restarts the count on a new match", () => {
+    const session = createSession("s1", "/repo");
+    prompt(session, "write a migration");
+    prompt(session, "ok do it");
+
+    prompt(session, "one more migration");
+    expect(session.stickyDomains).toEqual({ database: 2 });
+  });
+
+  it("drops the count when the domain is excluded", () => {
+    const session = createSession("s1", "/repo");
+    prompt(session, "write a migration");
+
+    expect(prompt(session, "no db work now").sticky).toEqual({});
+    expect(session.stickyDomains).toEqual({});
+  });
+
+  it("ignores domains without stickyPrompts", () => {
+    const session = createSession("s1", "/repo");
+    prompt(session, "add a test");
+    expect(session.stickyDomains).toEqual({});
+  });
+});
+
+describe("updateModes", () => {
+  const manifest = ManifestSchema.parse({});
+  const commands = CommandsFileSchema.parse({
+    brief: { rules: ["Be brief"] },
+    review: { aliases: ["rv"], rules: ["Review the change"] },
+  });
+
+  function prompt(session: ReturnType<typeof createSession>, text: string) {
+    const result = matchDomains(text, manifest);
+    updateModes(session, result, commands);
+    return result;
+  }
+
+  it("keeps a mode on until it is turned off", () => {
+    const session = createSession("s1", "/repo");
+
+    expect(prompt(session, "*brief+ explain the parser").modes).toEqual(["brief"]);
+    expect(prompt(session, "and the lexer").modes).toEqual(["brief"]);
+    expect(prompt(session, "*brief off").modes).toEqual([]);
+    expect(session.modes).toEqual({});
+  });
+
+  it("stores the arguments and resolves aliases", () => {
+    const session = createSession("s1", "/repo");
+    prompt(session, "*rv+ severity=high");
+
+    const result = prompt(session, "look at the diff");
+    expect(result.modes).toEqual(["review"]);
+    expect(result.starCommandArgs.review).toEqual({ named: { severity: "high" }, positional: [], toggle: null });
+  });
+
+  it("lets a one-off command override the mode's arguments for that prompt", () => {
+    const session = createSession("s1", "/repo");
+    prompt(session, "*review+ severity=high");
+
+    expect(prompt(session, "*review severity=low").starCommandArgs.review.named).toEqual({ severity: "low" });
+    expect(session.modes.review.named).toEqual({ severity: "high" });
+  });
+
+  it("ignores toggles for unknown commands", () => {
+    const session = createSession("s1", "/repo");
+    expect(prompt(session, "*nope+").modes).toEqual([]);
+    expect(session.modes).toEqual({});
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseTomlDependencies } from "../src/engine/stack";
+
+describe("parseTomlDependencies", () => {
+  it("reads PEP 621 dependency arrays and optional groups", () => {
+    const names = parseTomlDependencies(
+      [
+        "[build-system]",
+        'requires = ["setuptools"]',
+        "",
+        "[project]",
+        'name = "app"',
+        "dependencies = [",
+        '  "Django>=4.2",  # web',
+        '  "uvicorn[standard]>=0.20",',
+        '  "python_dateutil",',
+        "]",
+        "",
+        "[project.optional-dependencies]",
+        'test = ["pytest", "pytest-cov"]',
+      ].join("\n")
+    );
+    expect(names).toEqual(["django", "uvicorn", "python-dateutil", "pytest", "pytest-cov"]);
+  });
+
+  it("keeps reading an array after an item with extras on the first line", () => {
+    const names = parseTomlDependencies('[project]\ndependencies = ["fastapi[all]",\n  "sqlalchemy",\n]\n');
+    expect(names).toEqual(["fastapi", "sqlalchemy"]);
+  });
+
+  it("reads Poetry and Cargo dependency tables", () => {
+    const names = parseTomlDependencies(
+      [
+        "[tool.poetry.group.dev.dependencies]",
+        'black = "^24"',
+        "",
+        "[dependencies]",
+        'serde = { version = "1", features = ["derive"] }',
+        "",
+        "[dev-dependencies.tokio]",
+        'version = "1"',
+        "",
+        "[package]",
+        'name = "not-a-dependency"',
+      ].join("\n")
+    );
+    expect(names).toEqual(["black", "serde", "tokio"]);
+  });
+});
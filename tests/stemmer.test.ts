@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { stem, stemKeyword, stemText } from "../src/engine/stemmer";
+
+describe("stem", () => {
+  // Reference pairs from Porter's algorithm description (step by step)
+  it.each([
+    ["caresses", "caress"],
+    ["ponies", "poni"],
+    ["ties", "ti"],
+    ["caress", "caress"],
+    ["cats", "cat"],
+    ["feed", "feed"],
+    ["agreed", "agre"],
+    ["plastered", "plaster"],
+    ["bled", "bled"],
+    ["motoring", "motor"],
+    ["sing", "sing"],
+    ["conflated", "conflat"],
+    ["troubled", "troubl"],
+    ["sized", "size"],
+    ["hopping", "hop"],
+    ["tanned", "tan"],
+    ["falling", "fall"],
+    ["hissing", "hiss"],
+    ["fizzed", "fizz"],
+    ["failing", "fail"],
+    ["filing", "file"],
+    ["happy", "happi"],
+    ["sky", "sky"],
+    ["relational", "relat"],
+    ["conditional", "condit"],
+    ["rational", "ration"],
+    ["valenci", "valenc"],
+    ["digitizer", "digit"],
+    ["operator", "oper"],
+    ["feudalism", "feudal"],
+    ["decisiveness", "decis"],
+    ["hopefulness", "hope"],
+    ["callousness", "callous"],
+    ["formaliti", "formal"],
+    ["sensitiviti", "sensit"],
+    ["sensibiliti", "sensibl"],
+    ["triplicate", "triplic"],
+    ["formative", "form"],
+    ["formalize", "formal"],
+    ["electriciti", "electr"],
+    ["electrical", "electr"],
+    ["hopeful", "hope"],
+    ["goodness", "good"],
+    ["revival", "reviv"],
+    ["allowance", "allow"],
+    ["inference", "infer"],
+    ["airliner", "airlin"],
+    ["adjustable", "adjust"],
+    ["defensible", "defens"],
+    ["irritant", "irrit"],
+    ["replacement", "replac"],
+    ["adjustment", "adjust"],
+    ["dependent", "depend"],
+    ["adoption", "adopt"],
+    ["homologou", "homolog"],
+    ["communism", "commun"],
+    ["activate", "activ"],
+    ["angulariti", "angular"],
+    ["homologous", "homolog"],
+    ["effective", "effect"],
+    ["bowdlerize", "bowdler"],
+    ["probate", "probat"],
+    ["rate", "rate"],
+    ["cease", "ceas"],
+    ["controll", "control"],
+    ["roll", "roll"],
+    ["generalization", "gener"],
+    ["generalizations", "gener"],
+    ["oscillators", "oscil"],
+  ])("stems %s to %s", (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it("leaves short words alone", () => {
+    expect(stem("is")).toBe("is");
+    expect(stem("as")).toBe("as");
+  });
+});
+
+describe("stemText / stemKeyword", () => {
+  it("stems phrases so keywords match inflected prompts", () => {
+    expect(stemText("Running the Unit-Tests")).toBe(" run the unit test ");
+    expect(stemKeyword("unit test")).toBe(" unit test ");
+    expect(stemText("Running the Unit-Tests")).toContain(stemKeyword("unit tests")!);
+  });
+
+  it("does not stem keywords with symbols", () => {
+    expect(stemKeyword("c++")).toBeNull();
+    expect(stemKeyword("API/v2")).toBeNull();
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // @opencode-ai/plugin ships ESM with extensionless imports; let Vite resolve it
+    server: { deps: { inline: ["@opencode-ai/plugin"] } },
+  },
+});